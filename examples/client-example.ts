@@ -52,11 +52,13 @@ async function getPlayerStats(playerId: string): Promise<void> {
 function connectWebSocket(): void {
   const ws = new WebSocket(WS_URL);
 
+  // Top 10 of the global board, as of version
+  let leaderboard: any[] = [];
+  let version = 0;
+
   ws.on('open', () => {
+    // New connections follow the global top 10, starting with a snapshot
     console.log('Connected to WebSocket');
-    
-    // Send subscribe message
-    ws.send(JSON.stringify({ type: 'subscribe' }));
   });
 
   ws.on('message', (data: Buffer) => {
@@ -67,11 +69,33 @@ function connectWebSocket(): void {
         console.log('[WS] Connected:', message.message);
         break;
       
-      case 'leaderboard_update':
-        console.log('[WS] Leaderboard Update Received!');
-        console.log('Top 10:', message.data.leaderboard);
-        console.log('Changed Rankings:', message.data.changedRankings);
+      case 'leaderboard_snapshot':
+        leaderboard = message.data.leaderboard;
+        version = message.data.version;
+        console.log(`[WS] Leaderboard snapshot (version ${version}):`, leaderboard);
+        break;
+
+      case 'leaderboard_delta': {
+        const delta = message.data;
+        if (delta.version <= version) {
+          break;
+        }
+        if (delta.base_version > version) {
+          // Missed an update: catch up from the version we hold
+          ws.send(JSON.stringify({ type: 'replay', from_version: version }));
+          break;
+        }
+
+        const patched = new Map(delta.entries.map((entry: any) => [entry.rank, entry]));
+        leaderboard = Array.from(
+          { length: delta.size },
+          (_, index) => patched.get(index + 1) ?? leaderboard[index]
+        );
+        version = delta.version;
+        console.log(`[WS] Leaderboard delta (version ${version}):`, leaderboard);
+        console.log('Changed Rankings:', delta.changedRankings);
         break;
+      }
       
       case 'heartbeat':
         console.log('[WS] Heartbeat received');
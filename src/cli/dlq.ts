@@ -0,0 +1,90 @@
+import { DEAD_LETTER_STATUSES, DeadLetterStatus } from '../types';
+import { DatabaseService } from '../services/DatabaseService';
+import { MockDatabaseService } from '../services/MockDatabaseService';
+import { PostgresDatabaseService } from '../services/PostgresDatabaseService';
+import { BatchSavingService } from '../services/BatchSavingService';
+import { FileDeadLetterQueue } from '../services/FileDeadLetterQueue';
+import { DeadLetterService } from '../services/DeadLetterService';
+
+/**
+ * Dead letter queue tool, sharing the queue file and database settings of
+ * the server:
+ *
+ *   npm run dlq -- list [pending|replayed|discarded]
+ *   npm run dlq -- show <id>
+ *   npm run dlq -- replay <id|--all>
+ *   npm run dlq -- discard <id>
+ */
+
+const USAGE = 'Usage: dlq list [status] | show <id> | replay <id|--all> | discard <id>';
+
+async function main(args: string[]): Promise<number> {
+  const [command, argument] = args;
+
+  const deadLetterQueue = new FileDeadLetterQueue(process.env.DEAD_LETTER_QUEUE_PATH);
+  const dbService: DatabaseService = process.env.DATABASE_URL
+    ? new PostgresDatabaseService(process.env.DATABASE_URL, 1, deadLetterQueue)
+    : new MockDatabaseService(deadLetterQueue);
+  const deadLetterService = new DeadLetterService(
+    deadLetterQueue,
+    new BatchSavingService(1, dbService)
+  );
+
+  switch (command) {
+    case 'list': {
+      if (argument !== undefined && !DEAD_LETTER_STATUSES.includes(argument as DeadLetterStatus)) {
+        console.error(`Unknown status ${argument}; expected ${DEAD_LETTER_STATUSES.join(', ')}`);
+        return 1;
+      }
+
+      const entries = await deadLetterService.list(argument as DeadLetterStatus | undefined);
+      console.table(entries.map(({ submissions, ...entry }) => entry));
+      return 0;
+    }
+
+    case 'show': {
+      if (!argument) {
+        break;
+      }
+      console.log(JSON.stringify(await deadLetterService.get(argument), null, 2));
+      return 0;
+    }
+
+    case 'replay': {
+      if (!argument) {
+        break;
+      }
+
+      await dbService.connect();
+      try {
+        const results =
+          argument === '--all'
+            ? await deadLetterService.replayAll()
+            : [await deadLetterService.replay(argument)];
+        console.table(results);
+        return results.every((result) => result.success) ? 0 : 1;
+      } finally {
+        await dbService.disconnect();
+      }
+    }
+
+    case 'discard': {
+      if (!argument) {
+        break;
+      }
+      const { submissions, ...entry } = await deadLetterService.discard(argument);
+      console.table([entry]);
+      return 0;
+    }
+  }
+
+  console.error(USAGE);
+  return 1;
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,342 @@
+import { Request, Response } from 'express';
+import { DEAD_LETTER_STATUSES } from '../types';
+import { RebuildService, RebuildInProgressError } from '../services/RebuildService';
+import {
+  DeadLetterService,
+  DeadLetterNotFoundError,
+  DeadLetterNotPendingError,
+} from '../services/DeadLetterService';
+import {
+  QuarantineService,
+  QuarantineNotFoundError,
+  QuarantineNotPendingError,
+  QuarantinedPlayerBannedError,
+} from '../services/QuarantineService';
+import { ScoreOutOfRangeError } from '../services/RedisService';
+import Joi from 'joi';
+
+export class AdminController {
+  private rebuildService: RebuildService;
+  private deadLetterService: DeadLetterService;
+  private quarantineService: QuarantineService;
+
+  // Validation schema for dead letter queue listing
+  private deadLetterListSchema = Joi.object({
+    status: Joi.string().valid(...DEAD_LETTER_STATUSES),
+  }).unknown(true);
+
+  // Validation schema for the quarantine review list
+  private quarantineListSchema = Joi.object({
+    limit: Joi.number().integer().min(1).max(500).default(50),
+  }).unknown(true);
+
+  constructor(
+    rebuildService: RebuildService,
+    deadLetterService: DeadLetterService,
+    quarantineService: QuarantineService
+  ) {
+    this.rebuildService = rebuildService;
+    this.deadLetterService = deadLetterService;
+    this.quarantineService = quarantineService;
+  }
+
+  /**
+   * POST /admin/rebuild - Rebuild the Redis leaderboards from the database
+   */
+  startRebuild = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const status = await this.rebuildService.start();
+
+      res.status(202).json({
+        success: true,
+        message: 'Leaderboard rebuild started',
+        data: status,
+      });
+    } catch (error) {
+      if (error instanceof RebuildInProgressError) {
+        res.status(409).json({
+          error: 'Rebuild in progress',
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error('[AdminController] Error starting rebuild:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to start rebuild',
+      });
+    }
+  };
+
+  /**
+   * GET /admin/rebuild - Get the progress of the current or last rebuild
+   */
+  getRebuildStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const status = await this.rebuildService.getStatus();
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      console.error('[AdminController] Error fetching rebuild status:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch rebuild status',
+      });
+    }
+  };
+
+  /**
+   * GET /admin/dlq - List dead letter queue entries, without their
+   * submissions; ?status= filters by pending, replayed or discarded
+   */
+  listDeadLetters = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { error, value } = this.deadLetterListSchema.validate(req.query);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      const entries = await this.deadLetterService.list(value.status);
+
+      res.status(200).json({
+        success: true,
+        data: entries.map(({ submissions, ...entry }) => entry),
+        count: entries.length,
+      });
+    } catch (error) {
+      console.error('[AdminController] Error listing dead letters:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to list dead letter queue',
+      });
+    }
+  };
+
+  /**
+   * GET /admin/dlq/:id - Get a dead letter queue entry with its submissions
+   */
+  getDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const entry = await this.deadLetterService.get(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleDeadLetterError(res, error, 'Failed to fetch dead letter entry');
+    }
+  };
+
+  /**
+   * POST /admin/dlq/:id/replay - Save a pending entry's batch to the database
+   */
+  replayDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.deadLetterService.replay(req.params.id);
+
+      res.status(result.success ? 200 : 502).json({
+        success: result.success,
+        data: result,
+      });
+    } catch (error) {
+      this.handleDeadLetterError(res, error, 'Failed to replay dead letter entry');
+    }
+  };
+
+  /**
+   * POST /admin/dlq/replay - Replay every pending entry
+   */
+  replayAllDeadLetters = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const results = await this.deadLetterService.replayAll();
+      const failed = results.filter((result) => !result.success).length;
+
+      res.status(200).json({
+        success: failed === 0,
+        data: results,
+        replayed: results.length - failed,
+        failed,
+      });
+    } catch (error) {
+      console.error('[AdminController] Error replaying dead letters:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to replay dead letter queue',
+      });
+    }
+  };
+
+  /**
+   * DELETE /admin/dlq/:id - Discard a pending entry without saving it
+   */
+  discardDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { submissions, ...entry } = await this.deadLetterService.discard(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleDeadLetterError(res, error, 'Failed to discard dead letter entry');
+    }
+  };
+
+  private handleDeadLetterError(res: Response, error: unknown, message: string): void {
+    if (error instanceof DeadLetterNotFoundError) {
+      res.status(404).json({
+        error: 'Dead letter entry not found',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof DeadLetterNotPendingError) {
+      res.status(409).json({
+        error: 'Dead letter entry not pending',
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error(`[AdminController] ${message}:`, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message,
+    });
+  }
+
+  /**
+   * GET /admin/quarantine - List submissions awaiting review, oldest first
+   */
+  listQuarantined = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { error, value } = this.quarantineListSchema.validate(req.query);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      const { entries, total } = await this.quarantineService.listPending(value.limit);
+
+      res.status(200).json({
+        success: true,
+        data: entries,
+        count: entries.length,
+        total,
+      });
+    } catch (error) {
+      console.error('[AdminController] Error listing quarantined submissions:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to list quarantined submissions',
+      });
+    }
+  };
+
+  /**
+   * GET /admin/quarantine/:id - Get a quarantined submission
+   */
+  getQuarantined = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const entry = await this.quarantineService.get(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleQuarantineError(res, error, 'Failed to fetch quarantined submission');
+    }
+  };
+
+  /**
+   * POST /admin/quarantine/:id/approve - Apply a submission to the board
+   */
+  approveQuarantined = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { entry, result } = await this.quarantineService.approve(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+        score_changed: result.changed,
+        previous_score: result.previousScore,
+        stored_score: result.storedScore,
+        rank: result.rank,
+      });
+    } catch (error) {
+      this.handleQuarantineError(res, error, 'Failed to approve quarantined submission');
+    }
+  };
+
+  /**
+   * POST /admin/quarantine/:id/reject - Discard a submission
+   */
+  rejectQuarantined = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const entry = await this.quarantineService.reject(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleQuarantineError(res, error, 'Failed to reject quarantined submission');
+    }
+  };
+
+  private handleQuarantineError(res: Response, error: unknown, message: string): void {
+    if (error instanceof QuarantineNotFoundError) {
+      res.status(404).json({
+        error: 'Quarantined submission not found',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof QuarantineNotPendingError) {
+      res.status(409).json({
+        error: 'Quarantined submission not pending',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof QuarantinedPlayerBannedError) {
+      res.status(409).json({
+        error: 'Player banned',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof ScoreOutOfRangeError) {
+      res.status(422).json({
+        error: 'Score out of range',
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error(`[AdminController] ${message}:`, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message,
+    });
+  }
+}
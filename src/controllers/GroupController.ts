@@ -0,0 +1,264 @@
+import { Request, Response } from 'express';
+import { RedisService } from '../services/RedisService';
+import { hasRole } from '../services/AuthService';
+import Joi from 'joi';
+
+export const MAX_GROUP_SIZE = 500;
+
+export class GroupController {
+  private redisService: RedisService;
+
+  // Group ids become part of Redis keys, so keep them to a safe alphabet
+  private groupIdSchema = Joi.string()
+    .pattern(/^[A-Za-z0-9_-]+$/)
+    .min(1)
+    .max(64);
+
+  // Validation schema for group membership changes
+  private membersSchema = Joi.object({
+    player_ids: Joi.array()
+      .items(Joi.string().min(1).max(255))
+      .max(MAX_GROUP_SIZE)
+      .unique()
+      .required(),
+  });
+
+  constructor(redisService: RedisService) {
+    this.redisService = redisService;
+  }
+
+  /**
+   * Validate the :groupId parameter. Responds with 400 and returns null
+   * when it is malformed.
+   */
+  private resolveGroupId(req: Request, res: Response): string | null {
+    const { groupId } = req.params;
+    const { error } = this.groupIdSchema.validate(groupId);
+
+    if (error) {
+      res.status(400).json({
+        error: 'Invalid group id',
+        details: [error.message],
+      });
+      return null;
+    }
+
+    return groupId;
+  }
+
+  /**
+   * Allow changes to a group only to its owner and admins. With create, a
+   * new group becomes the caller's. Responds with 403 and returns false
+   * otherwise.
+   */
+  private async authorizeChange(
+    req: Request,
+    res: Response,
+    groupId: string,
+    create: boolean
+  ): Promise<boolean> {
+    const principal = req.principal;
+    if (principal) {
+      const owner = create
+        ? await this.redisService.claimGroup(groupId, principal.id)
+        : await this.redisService.getGroupOwner(groupId);
+
+      if (owner === principal.id || hasRole(principal, 'admin')) {
+        return true;
+      }
+    }
+
+    res.status(403).json({
+      error: 'Forbidden',
+      message: `Only the owner of group ${groupId} or an admin can change it`,
+    });
+    return false;
+  }
+
+  /**
+   * GET /groups/:groupId - Get a group's members
+   */
+  getGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const groupId = this.resolveGroupId(req, res);
+      if (groupId === null) {
+        return;
+      }
+
+      const [members, owner] = await Promise.all([
+        this.redisService.getGroupMembers(groupId),
+        this.redisService.getGroupOwner(groupId),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          group_id: groupId,
+          owner_id: owner,
+          player_ids: members.sort(),
+        },
+      });
+    } catch (error) {
+      console.error('[GroupController] Error fetching group:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch group',
+      });
+    }
+  };
+
+  /**
+   * PUT /groups/:groupId - Create a group or replace its members
+   */
+  setGroupMembers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const groupId = this.resolveGroupId(req, res);
+      if (groupId === null) {
+        return;
+      }
+
+      const { error, value } = this.membersSchema.validate(req.body);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      if (!(await this.authorizeChange(req, res, groupId, true))) {
+        return;
+      }
+
+      await this.redisService.setGroupMembers(groupId, value.player_ids);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          group_id: groupId,
+          player_ids: value.player_ids,
+        },
+      });
+    } catch (error) {
+      console.error('[GroupController] Error setting group members:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update group',
+      });
+    }
+  };
+
+  /**
+   * POST /groups/:groupId/members - Add players to a group
+   */
+  addGroupMembers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const groupId = this.resolveGroupId(req, res);
+      if (groupId === null) {
+        return;
+      }
+
+      const { error, value } = this.membersSchema.validate(req.body);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      if (!(await this.authorizeChange(req, res, groupId, true))) {
+        return;
+      }
+
+      const current = await this.redisService.getGroupMembers(groupId);
+      const size = new Set([...current, ...value.player_ids]).size;
+
+      if (size > MAX_GROUP_SIZE) {
+        res.status(400).json({
+          error: 'Group too large',
+          message: `A group can have at most ${MAX_GROUP_SIZE} members`,
+        });
+        return;
+      }
+
+      if (value.player_ids.length > 0) {
+        await this.redisService.addGroupMembers(groupId, value.player_ids);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          group_id: groupId,
+          member_count: size,
+        },
+      });
+    } catch (error) {
+      console.error('[GroupController] Error adding group members:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to add group members',
+      });
+    }
+  };
+
+  /**
+   * DELETE /groups/:groupId/members/:playerId - Remove a player from a group
+   */
+  removeGroupMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const groupId = this.resolveGroupId(req, res);
+      if (groupId === null) {
+        return;
+      }
+
+      if (!(await this.authorizeChange(req, res, groupId, false))) {
+        return;
+      }
+
+      await this.redisService.removeGroupMember(groupId, req.params.playerId);
+
+      res.status(200).json({
+        success: true,
+        message: `Player ${req.params.playerId} removed from group ${groupId}`,
+      });
+    } catch (error) {
+      console.error('[GroupController] Error removing group member:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to remove group member',
+      });
+    }
+  };
+
+  /**
+   * DELETE /groups/:groupId - Delete a group
+   */
+  deleteGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const groupId = this.resolveGroupId(req, res);
+      if (groupId === null) {
+        return;
+      }
+
+      if (!(await this.authorizeChange(req, res, groupId, false))) {
+        return;
+      }
+
+      await this.redisService.deleteGroup(groupId);
+
+      res.status(200).json({
+        success: true,
+        message: `Group ${groupId} deleted`,
+      });
+    } catch (error) {
+      console.error('[GroupController] Error deleting group:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to delete group',
+      });
+    }
+  };
+}
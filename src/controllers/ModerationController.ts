@@ -0,0 +1,366 @@
+import { Request, Response } from 'express';
+import { MODERATION_ACTIONS } from '../types';
+import { MAX_SCORE } from '../services/RedisService';
+import { AuditLogService } from '../services/AuditLogService';
+import {
+  ModerationService,
+  PlayerAlreadyBannedError,
+  PlayerNotBannedError,
+  PlayerNotOnBoardError,
+} from '../services/ModerationService';
+import { RebuildInProgressError } from '../services/RebuildService';
+import Joi from 'joi';
+
+export class ModerationController {
+  private moderationService: ModerationService;
+  private auditLogService: AuditLogService;
+
+  // Board ids become part of Redis keys, so keep them to a safe alphabet
+  private boardIdSchema = Joi.string()
+    .pattern(/^[A-Za-z0-9_-]+$/)
+    .min(1)
+    .max(64);
+
+  private playerIdSchema = Joi.string().min(1).max(255);
+
+  // Validation schema for actions that only take an optional reason
+  private reasonSchema = Joi.object({
+    reason: Joi.string().max(500).allow(null).default(null),
+  });
+
+  // Validation schema for score overrides
+  private overrideSchema = Joi.object({
+    score: Joi.number().integer().min(0).max(MAX_SCORE).required(),
+    reason: Joi.string().max(500).allow(null).default(null),
+  });
+
+  // Validation schema for bans
+  private banSchema = Joi.object({
+    reason: Joi.string().max(500).allow(null).default(null),
+    remove_scores: Joi.boolean().default(false),
+  });
+
+  // Validation schema for audit log queries
+  private auditSchema = Joi.object({
+    action: Joi.string().valid(...MODERATION_ACTIONS),
+    actor: Joi.string().max(255),
+    board_id: Joi.string().max(64),
+    player_id: Joi.string().max(255),
+    limit: Joi.number().integer().min(1).max(500).default(50),
+    before: Joi.string().pattern(/^\d+-\d+$/),
+  }).unknown(true);
+
+  constructor(moderationService: ModerationService, auditLogService: AuditLogService) {
+    this.moderationService = moderationService;
+    this.auditLogService = auditLogService;
+  }
+
+  /**
+   * Validate the :boardId and :playerId parameters present on the route.
+   * Responds with 400 and returns null when one is malformed.
+   */
+  private resolveTarget(
+    req: Request,
+    res: Response
+  ): { boardId: string; playerId: string } | null {
+    const { boardId = '', playerId = '' } = req.params;
+    const boardError = 'boardId' in req.params && this.boardIdSchema.validate(boardId).error;
+    const playerError = 'playerId' in req.params && this.playerIdSchema.validate(playerId).error;
+
+    if (boardError || playerError) {
+      res.status(400).json({
+        error: 'Invalid target',
+        details: [boardError, playerError].filter(Boolean).map((e) => (e as Error).message),
+      });
+      return null;
+    }
+
+    return { boardId, playerId };
+  }
+
+  /**
+   * Validate a request body. Responds with 400 and returns null when it is
+   * invalid.
+   */
+  private validateBody<T>(schema: Joi.ObjectSchema<T>, req: Request, res: Response): T | null {
+    const { error, value } = schema.validate(req.body ?? {});
+
+    if (error) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: error.details.map((d) => d.message),
+      });
+      return null;
+    }
+
+    return value;
+  }
+
+  private actor(req: Request): string {
+    return req.principal?.id ?? 'anonymous';
+  }
+
+  /**
+   * DELETE /admin/players/:playerId - Remove a player from every board
+   */
+  removePlayer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = this.resolveTarget(req, res);
+      const body = target && this.validateBody(this.reasonSchema, req, res);
+      if (!target || !body) {
+        return;
+      }
+
+      const entry = await this.moderationService.removePlayer(
+        target.playerId,
+        this.actor(req),
+        body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to remove player');
+    }
+  };
+
+  /**
+   * DELETE /admin/boards/:boardId/players/:playerId - Clear a player's score
+   * on a board
+   */
+  resetScore = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = this.resolveTarget(req, res);
+      const body = target && this.validateBody(this.reasonSchema, req, res);
+      if (!target || !body) {
+        return;
+      }
+
+      const entry = await this.moderationService.resetScore(
+        target.boardId,
+        target.playerId,
+        this.actor(req),
+        body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to reset score');
+    }
+  };
+
+  /**
+   * PUT /admin/boards/:boardId/players/:playerId/score - Override a
+   * player's score on a board
+   */
+  overrideScore = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = this.resolveTarget(req, res);
+      const body = target && this.validateBody(this.overrideSchema, req, res);
+      if (!target || !body) {
+        return;
+      }
+
+      const entry = await this.moderationService.overrideScore(
+        target.boardId,
+        target.playerId,
+        body.score,
+        this.actor(req),
+        body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to override score');
+    }
+  };
+
+  /**
+   * DELETE /admin/boards/:boardId/scores - Remove every score from a board
+   */
+  wipeBoard = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = this.resolveTarget(req, res);
+      const body = target && this.validateBody(this.reasonSchema, req, res);
+      if (!target || !body) {
+        return;
+      }
+
+      const entry = await this.moderationService.wipeBoard(
+        target.boardId,
+        this.actor(req),
+        body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to wipe board');
+    }
+  };
+
+  /**
+   * GET /admin/bans - List banned players
+   */
+  listBans = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const bans = await this.moderationService.listBans();
+
+      res.status(200).json({
+        success: true,
+        data: bans,
+        count: bans.length,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to list bans');
+    }
+  };
+
+  /**
+   * GET /admin/bans/:playerId - Get a player's ban
+   */
+  getBan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = this.resolveTarget(req, res);
+      if (!target) {
+        return;
+      }
+
+      const ban = await this.moderationService.getBan(target.playerId);
+      if (!ban) {
+        throw new PlayerNotBannedError(target.playerId);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: ban,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to fetch ban');
+    }
+  };
+
+  /**
+   * PUT /admin/bans/:playerId - Ban a player
+   */
+  banPlayer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = this.resolveTarget(req, res);
+      const body = target && this.validateBody(this.banSchema, req, res);
+      if (!target || !body) {
+        return;
+      }
+
+      const { ban, entry } = await this.moderationService.banPlayer(
+        target.playerId,
+        this.actor(req),
+        body.reason,
+        body.remove_scores
+      );
+
+      res.status(201).json({
+        success: true,
+        data: ban,
+        audit: entry,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to ban player');
+    }
+  };
+
+  /**
+   * DELETE /admin/bans/:playerId - Lift a player's ban
+   */
+  unbanPlayer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const target = this.resolveTarget(req, res);
+      const body = target && this.validateBody(this.reasonSchema, req, res);
+      if (!target || !body) {
+        return;
+      }
+
+      const entry = await this.moderationService.unbanPlayer(
+        target.playerId,
+        this.actor(req),
+        body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to unban player');
+    }
+  };
+
+  /**
+   * GET /admin/audit - Query the moderation audit log, newest first
+   */
+  getAuditLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { error, value } = this.auditSchema.validate(req.query);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      const { entries, next_cursor } = await this.auditLogService.query(value);
+
+      res.status(200).json({
+        success: true,
+        data: entries,
+        count: entries.length,
+        next_cursor,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to query audit log');
+    }
+  };
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof PlayerNotOnBoardError || error instanceof PlayerNotBannedError) {
+      res.status(404).json({
+        error: 'Not found',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof PlayerAlreadyBannedError) {
+      res.status(409).json({
+        error: 'Player already banned',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error instanceof RebuildInProgressError) {
+      res.status(409).json({
+        error: 'Rebuild in progress',
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error(`[ModerationController] ${message}:`, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message,
+    });
+  }
+}
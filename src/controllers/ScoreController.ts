@@ -1,31 +1,323 @@
 import { Request, Response } from 'express';
-import { ScoreSubmission } from '../types';
-import { RedisService } from '../services/RedisService';
-import { KafkaService } from '../services/KafkaService';
+import {
+  BoardConfig,
+  IdempotencyRecord,
+  ScoreSubmission,
+  AGGREGATION_POLICIES,
+  DEFAULT_BOARD_ID,
+  TimeWindow,
+  TIME_WINDOWS,
+  WindowPeriod,
+} from '../types';
+import {
+  RedisService,
+  InvalidCursorError,
+  MAX_SCORE,
+  ScoreOutOfRangeError,
+} from '../services/RedisService';
+import { TimeWindowService } from '../services/TimeWindowService';
+import { LeaderboardProcessingService } from '../services/LeaderboardProcessingService';
+import { LeaderboardStatisticsService } from '../services/LeaderboardStatisticsService';
+import { GroupLeaderboardService } from '../services/GroupLeaderboardService';
+import { DatabaseService } from '../services/DatabaseService';
+import { RebuildService } from '../services/RebuildService';
+import { AntiCheatService } from '../services/AntiCheatService';
+import { QuarantineService } from '../services/QuarantineService';
+import { ModerationService } from '../services/ModerationService';
+import {
+  ServerSentEventsService,
+  TooManyStreamsError,
+} from '../services/ServerSentEventsService';
+import {
+  SignatureService,
+  InvalidSignatureError,
+  SignatureRejectedError,
+} from '../services/SignatureService';
+import { MAX_GROUP_SIZE } from './GroupController';
 import Joi from 'joi';
 
 export class ScoreController {
   private redisService: RedisService;
-  private kafkaService: KafkaService;
+  private timeWindowService: TimeWindowService;
+  private leaderboardProcessingService: LeaderboardProcessingService;
+  private statisticsService: LeaderboardStatisticsService;
+  private groupLeaderboardService: GroupLeaderboardService;
+  private dbService: DatabaseService;
+  private rebuildService: RebuildService;
+  private antiCheatService: AntiCheatService;
+  private quarantineService: QuarantineService;
+  private signatureService: SignatureService;
+  private moderationService: ModerationService;
+  private sseService: ServerSentEventsService;
+  private readonly idempotencyTtlSeconds: number;
 
   // Validation schema for score submission
   private scoreSchema = Joi.object({
     player_id: Joi.string().required().min(1).max(255),
-    score: Joi.number().integer().min(0).required(),
+    score: Joi.number().integer().min(0).max(MAX_SCORE).required(),
     timestamp: Joi.string().isoDate().required(),
+    submission_id: Joi.string().min(1).max(255),
   });
 
-  constructor(redisService: RedisService, kafkaService: KafkaService) {
+  // Validation schema for the Idempotency-Key header
+  private idempotencyKeySchema = Joi.string().min(1).max(255);
+
+  // Validation schema for board configuration
+  private boardConfigSchema = Joi.object({
+    aggregation: Joi.string()
+      .valid(...AGGREGATION_POLICIES)
+      .required(),
+    max_score: Joi.number().integer().min(0).max(MAX_SCORE).allow(null).default(null),
+  });
+
+  // Validation schema for the "around me" window
+  private aroundSchema = Joi.object({
+    before: Joi.number().integer().min(0).max(50).default(5),
+    after: Joi.number().integer().min(0).max(50).default(5),
+  }).unknown(true);
+
+  // Validation schema for score history filters and pagination
+  private historySchema = Joi.object({
+    from: Joi.date().iso(),
+    to: Joi.date().iso().min(Joi.ref('from')),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    cursor: Joi.string(),
+  }).unknown(true);
+
+  // Validation schema for histogram buckets: a bucket count or explicit edges
+  private histogramSchema = Joi.object({
+    buckets: Joi.number().integer().min(1).max(100).default(10),
+    edges: Joi.string().pattern(/^\d+(,\d+){0,99}$/),
+  }).unknown(true);
+
+  // Validation schema for percentile thresholds, e.g. ?p=50,90,99
+  private percentilesSchema = Joi.object({
+    p: Joi.string()
+      .pattern(/^\d+(\.\d+)?(,\d+(\.\d+)?){0,19}$/)
+      .default('50,75,90,95,99'),
+  }).unknown(true);
+
+  // Validation schema for an ad-hoc friends leaderboard
+  private friendsSchema = Joi.object({
+    player_ids: Joi.array()
+      .items(Joi.string().min(1).max(255))
+      .min(1)
+      .max(MAX_GROUP_SIZE)
+      .required(),
+  });
+
+  // Validation schema for stream filters, e.g. ?top=5&player_ids=a,b
+  private streamSchema = Joi.object({
+    top: Joi.number().integer().min(1).max(10),
+    player_ids: Joi.string().pattern(/^[^,]{1,255}(,[^,]{1,255}){0,99}$/),
+  }).unknown(true);
+
+  // Validation schema for the Last-Event-ID header: a leaderboard version
+  private lastEventIdSchema = Joi.number().integer().min(0);
+
+  // Board ids become part of Redis keys, so keep them to a safe alphabet
+  private boardIdSchema = Joi.string()
+    .pattern(/^[A-Za-z0-9_-]+$/)
+    .min(1)
+    .max(64);
+
+  constructor(
+    redisService: RedisService,
+    timeWindowService: TimeWindowService,
+    leaderboardProcessingService: LeaderboardProcessingService,
+    statisticsService: LeaderboardStatisticsService,
+    groupLeaderboardService: GroupLeaderboardService,
+    dbService: DatabaseService,
+    rebuildService: RebuildService,
+    antiCheatService: AntiCheatService,
+    quarantineService: QuarantineService,
+    signatureService: SignatureService,
+    moderationService: ModerationService,
+    sseService: ServerSentEventsService,
+    idempotencyTtlSeconds: number = 86400
+  ) {
     this.redisService = redisService;
-    this.kafkaService = kafkaService;
+    this.timeWindowService = timeWindowService;
+    this.leaderboardProcessingService = leaderboardProcessingService;
+    this.statisticsService = statisticsService;
+    this.groupLeaderboardService = groupLeaderboardService;
+    this.dbService = dbService;
+    this.rebuildService = rebuildService;
+    this.antiCheatService = antiCheatService;
+    this.quarantineService = quarantineService;
+    this.signatureService = signatureService;
+    this.moderationService = moderationService;
+    this.sseService = sseService;
+    this.idempotencyTtlSeconds = idempotencyTtlSeconds;
+  }
+
+  /**
+   * Resolve the board addressed by the request. Routes without a :boardId
+   * parameter use the default board. Responds with 400 and returns null
+   * when the id is malformed.
+   */
+  private resolveBoardId(req: Request, res: Response): string | null {
+    const boardId = req.params.boardId ?? DEFAULT_BOARD_ID;
+    const { error } = this.boardIdSchema.validate(boardId);
+
+    if (error) {
+      res.status(400).json({
+        error: 'Invalid board id',
+        details: [error.message],
+      });
+      return null;
+    }
+
+    return boardId;
+  }
+
+  /**
+   * Resolve the ?window=&period= query parameters. Returns undefined for
+   * the all-time board, the current period when no period is given, and
+   * null (after responding with 400) when the parameters are invalid.
+   */
+  private resolveWindowPeriod(req: Request, res: Response): WindowPeriod | undefined | null {
+    const window = (req.query.window as string | undefined) ?? 'alltime';
+    const period = req.query.period as string | undefined;
+
+    if (window === 'alltime') {
+      if (period !== undefined) {
+        res.status(400).json({
+          error: 'Invalid period',
+          details: ['"period" requires a daily, weekly or monthly window'],
+        });
+        return null;
+      }
+      return undefined;
+    }
+
+    if (!TIME_WINDOWS.includes(window as TimeWindow)) {
+      res.status(400).json({
+        error: 'Invalid window',
+        details: [`"window" must be one of alltime, ${TIME_WINDOWS.join(', ')}`],
+      });
+      return null;
+    }
+
+    const timeWindow = window as TimeWindow;
+
+    if (period === undefined) {
+      return this.timeWindowService.getPeriodAt(timeWindow, Date.now());
+    }
+
+    if (!this.timeWindowService.isValidPeriod(timeWindow, period)) {
+      res.status(400).json({
+        error: 'Invalid period',
+        details: [`"${period}" is not a valid ${timeWindow} period`],
+      });
+      return null;
+    }
+
+    return { window: timeWindow, period };
+  }
+
+  /**
+   * Verify the HMAC signature of a submission when signing clients are
+   * configured. Responds with 401 (unauthenticated) or 403 (refused) and
+   * returns false when it does not pass.
+   */
+  private async verifySignature(req: Request, res: Response, boardId: string): Promise<boolean> {
+    if (!this.signatureService.isEnabled()) {
+      return true;
+    }
+
+    try {
+      const clientId = await this.signatureService.verify(
+        {
+          clientId: req.get('X-Client-Id'),
+          timestamp: req.get('X-Signature-Timestamp'),
+          nonce: req.get('X-Signature-Nonce'),
+          signature: req.get('X-Signature'),
+          method: req.method,
+          path: req.originalUrl,
+          body: req.rawBody ?? Buffer.alloc(0),
+        },
+        boardId
+      );
+      console.log(`[ScoreController] Verified signature of client ${clientId}`);
+      return true;
+    } catch (error) {
+      if (error instanceof InvalidSignatureError) {
+        res.status(401).json({
+          error: 'Invalid signature',
+          message: error.message,
+        });
+        return false;
+      }
+
+      if (error instanceof SignatureRejectedError) {
+        res.status(403).json({
+          error: 'Signature rejected',
+          message: error.message,
+        });
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the submission id from the Idempotency-Key header or the
+   * submission_id field. Responds with 400 and returns null when it is
+   * malformed or the two disagree.
+   */
+  private resolveSubmissionId(
+    req: Request,
+    res: Response,
+    bodyId: string | undefined
+  ): string | undefined | null {
+    const headerId = req.get('Idempotency-Key');
+    const { error } = this.idempotencyKeySchema.validate(headerId);
+
+    if (error) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: [`Idempotency-Key ${error.message}`],
+      });
+      return null;
+    }
+
+    if (headerId !== undefined && bodyId !== undefined && headerId !== bodyId) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: ['Idempotency-Key header and submission_id must match'],
+      });
+      return null;
+    }
+
+    return headerId ?? bodyId;
   }
 
   /**
    * POST /scores - Submit a score
-   * Handles hundreds of requests per second with async processing
+   * Handles hundreds of requests per second with async processing.
+   * Retries carrying the same Idempotency-Key header or submission_id
+   * within the retention window get the original response and are not
+   * applied again. When signing clients are configured, only signed
+   * submissions are accepted.
    */
   submitScore = async (req: Request, res: Response): Promise<void> => {
+    let reserved: { boardId: string; submissionId: string } | null = null;
+    // Set once the submission reached the board or the review queue; from
+    // then on the reservation stands, so a retry cannot apply it again
+    let applied = false;
+
     try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      if (!(await this.verifySignature(req, res, boardId))) {
+        return;
+      }
+
       // Validate request body
       const { error, value } = this.scoreSchema.validate(req.body);
 
@@ -37,36 +329,128 @@ export class ScoreController {
         return;
       }
 
-      const submission: ScoreSubmission = value;
+      if (await this.moderationService.getBan(value.player_id)) {
+        res.status(403).json({
+          error: 'Player banned',
+          message: `Player ${value.player_id} is banned from submitting scores`,
+        });
+        return;
+      }
+
+      const submissionId = this.resolveSubmissionId(req, res, value.submission_id);
+      if (submissionId === null) {
+        return;
+      }
+
+      let fingerprint = '';
+      if (submissionId !== undefined) {
+        fingerprint = JSON.stringify([value.player_id, value.score, value.timestamp]);
+        const existing = await this.redisService.reserveSubmission(
+          boardId,
+          submissionId,
+          fingerprint,
+          this.idempotencyTtlSeconds
+        );
+
+        if (existing !== null) {
+          this.replaySubmission(res, submissionId, fingerprint, existing);
+          return;
+        }
+        reserved = { boardId, submissionId };
+      }
+
+      const boardConfig = await this.redisService.getBoardConfig(boardId);
+      const { aggregation } = boardConfig;
+      const submission: ScoreSubmission = {
+        ...value,
+        board_id: boardId,
+        accepted_at: new Date().toISOString(),
+        aggregation,
+        ...(submissionId !== undefined && { submission_id: submissionId }),
+      };
 
       console.log(`[ScoreController] Received score submission:`, submission);
 
-      // Step 1: Immediately add to Redis SortedSet (O(log N))
-      // This ensures instant leaderboard updates
-      await this.redisService.addScore(submission.player_id, submission.score);
+      // Implausible submissions wait for review instead of reaching the board.
+      // The client is not told which rule failed.
+      const violations = await this.antiCheatService.evaluate(submission, boardConfig);
+      if (violations.length > 0) {
+        const entry = await this.quarantineService.quarantine(submission, violations);
+        applied = true;
+        const body = {
+          success: true,
+          message: 'Score submitted for review',
+          status: 'quarantined',
+          board_id: boardId,
+          player_id: submission.player_id,
+          submission_id: submissionId ?? null,
+          score: submission.score,
+          quarantine_id: entry.id,
+        };
 
-      // Step 2: Publish to Kafka for async processing
-      // This isolates the database save process from the API response
-      await this.kafkaService.publishScoreSubmission(submission);
+        await this.acceptSubmission(res, reserved, fingerprint, body);
+        return;
+      }
 
-      // Step 3: Publish leaderboard change event
-      // This triggers the throttled leaderboard update process
-      await this.kafkaService.publishLeaderboardChange({
-        player_id: submission.player_id,
-        score: submission.score,
-        timestamp: Date.now(),
-      });
+      // Step 1: Immediately add to Redis SortedSet (O(log N))
+      // This ensures instant leaderboard updates
+      // The all-time board and the current daily/weekly/monthly periods
+      // are updated in one atomic script, applying the board's policy
+      // Step 2: In the same script, queue the submission in the outbox
+      // The relay publishes it to Kafka for persistence, along with a
+      // leaderboard change event when the stored score changed. Every
+      // submission is persisted, even when it did not change the stored
+      // score, so the player's history stays complete.
+      const result = await this.redisService.addScore(
+        boardId,
+        submission.player_id,
+        submission.score,
+        Date.parse(submission.timestamp),
+        Date.parse(submission.accepted_at as string),
+        aggregation,
+        this.timeWindowService.getActivePeriods(),
+        submission
+      );
+      applied = true;
 
-      // Return success immediately without waiting for database save
-      res.status(202).json({
+      const body = {
         success: true,
         message: 'Score submitted successfully',
+        status: 'accepted',
+        board_id: boardId,
         player_id: submission.player_id,
+        submission_id: submissionId ?? null,
         score: submission.score,
-      });
+        aggregation,
+        score_changed: result.changed,
+        previous_score: result.previousScore,
+        stored_score: result.storedScore,
+        rank: result.rank,
+      };
 
-      console.log(`[ScoreController] Score submission accepted for player: ${submission.player_id}`);
+      // Return success immediately without waiting for database save
+      await this.acceptSubmission(res, reserved, fingerprint, body);
+
+      console.log(
+        `[ScoreController] Score submission accepted for player ${submission.player_id} on board ${boardId}`
+      );
     } catch (error) {
+      if (reserved !== null && !applied) {
+        await this.redisService
+          .releaseSubmission(reserved.boardId, reserved.submissionId)
+          .catch((releaseError) =>
+            console.error('[ScoreController] Error releasing submission id:', releaseError)
+          );
+      }
+
+      if (error instanceof ScoreOutOfRangeError) {
+        res.status(422).json({
+          error: 'Score out of range',
+          message: error.message,
+        });
+        return;
+      }
+
       console.error('[ScoreController] Error submitting score:', error);
       res.status(500).json({
         error: 'Internal server error',
@@ -76,20 +460,103 @@ export class ScoreController {
   };
 
   /**
-   * GET /scores/top - Get top N players
+   * Send the 202 response, remembering it for retries of a reserved
+   * submission id. The submission is applied by now, so the response is
+   * sent even if it cannot be remembered; retries then get a 409 until
+   * the reservation expires.
+   */
+  private async acceptSubmission(
+    res: Response,
+    reserved: { boardId: string; submissionId: string } | null,
+    fingerprint: string,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    if (reserved !== null) {
+      try {
+        await this.redisService.completeSubmission(
+          reserved.boardId,
+          reserved.submissionId,
+          { fingerprint, status: 202, body },
+          this.idempotencyTtlSeconds
+        );
+      } catch (error) {
+        console.error('[ScoreController] Error storing response for submission id:', error);
+      }
+    }
+
+    res.status(202).json(body);
+  }
+
+  /**
+   * Answer a retry of a submission id that was already used
+   */
+  private replaySubmission(
+    res: Response,
+    submissionId: string,
+    fingerprint: string,
+    existing: IdempotencyRecord
+  ): void {
+    if (existing.fingerprint !== fingerprint) {
+      res.status(422).json({
+        error: 'Idempotency key reused',
+        message: `Submission ${submissionId} was already used for a different score`,
+      });
+      return;
+    }
+
+    if (existing.status === null || existing.body === null) {
+      res.status(409).json({
+        error: 'Submission in progress',
+        message: `Submission ${submissionId} is still being processed`,
+      });
+      return;
+    }
+
+    console.log(`[ScoreController] Replaying response for submission ${submissionId}`);
+    res.set('Idempotent-Replayed', 'true').status(existing.status).json(existing.body);
+  }
+
+  /**
+   * GET /scores/top - Get top N players, or a further page of the board
+   * when ?cursor= carries a next_cursor / prev_cursor from a previous page
    */
   getTopPlayers = async (req: Request, res: Response): Promise<void> => {
     try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const period = this.resolveWindowPeriod(req, res);
+      if (period === null) {
+        return;
+      }
+
       const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+      const cursor = req.query.cursor as string | undefined;
 
-      const topPlayers = await this.redisService.getTopPlayers(limit);
+      const page = await this.redisService.getPage(boardId, limit, cursor, period);
 
       res.status(200).json({
         success: true,
-        data: topPlayers,
-        count: topPlayers.length,
+        board_id: boardId,
+        window: period?.window ?? 'alltime',
+        period: period?.period ?? null,
+        data: page.entries,
+        count: page.entries.length,
+        total: page.total,
+        next_cursor: page.next_cursor,
+        prev_cursor: page.prev_cursor,
       });
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message,
+        });
+        return;
+      }
+
       console.error('[ScoreController] Error fetching top players:', error);
       res.status(500).json({
         error: 'Internal server error',
@@ -103,17 +570,28 @@ export class ScoreController {
    */
   getPlayerStats = async (req: Request, res: Response): Promise<void> => {
     try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const period = this.resolveWindowPeriod(req, res);
+      if (period === null) {
+        return;
+      }
+
       const { playerId } = req.params;
 
-      const [rank, score] = await Promise.all([
-        this.redisService.getPlayerRank(playerId),
-        this.redisService.getPlayerScore(playerId),
+      const [rank, score, total] = await Promise.all([
+        this.redisService.getPlayerRank(boardId, playerId, period),
+        this.redisService.getPlayerScore(boardId, playerId, period),
+        this.redisService.getTotalPlayers(boardId, period),
       ]);
 
       if (rank === null || score === null) {
         res.status(404).json({
           error: 'Player not found',
-          message: `Player ${playerId} has no scores`,
+          message: `Player ${playerId} has no scores on board ${boardId}`,
         });
         return;
       }
@@ -121,9 +599,14 @@ export class ScoreController {
       res.status(200).json({
         success: true,
         data: {
+          board_id: boardId,
+          window: period?.window ?? 'alltime',
+          period: period?.period ?? null,
           player_id: playerId,
           rank,
           score,
+          total_players: total,
+          ...this.statisticsService.getRankPercentile(rank, total),
         },
       });
     } catch (error) {
@@ -135,18 +618,247 @@ export class ScoreController {
     }
   };
 
+  /**
+   * GET /scores/player/:playerId/around?before=5&after=5 - Get the players
+   * ranked around a player, with usernames
+   */
+  getPlayersAround = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const period = this.resolveWindowPeriod(req, res);
+      if (period === null) {
+        return;
+      }
+
+      const { error, value } = this.aroundSchema.validate(req.query);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      const { playerId } = req.params;
+
+      const entries = await this.redisService.getPlayersAround(
+        boardId,
+        playerId,
+        value.before,
+        value.after,
+        period
+      );
+
+      if (entries === null) {
+        res.status(404).json({
+          error: 'Player not found',
+          message: `Player ${playerId} has no scores on board ${boardId}`,
+        });
+        return;
+      }
+
+      const enhanced =
+        await this.leaderboardProcessingService.enhanceLeaderboardWithUserDetails(entries);
+      const player = enhanced.find((entry) => entry.player_id === playerId);
+
+      res.status(200).json({
+        success: true,
+        board_id: boardId,
+        window: period?.window ?? 'alltime',
+        period: period?.period ?? null,
+        player_id: playerId,
+        rank: player?.rank ?? null,
+        data: enhanced,
+        count: enhanced.length,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error fetching players around player:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch surrounding players',
+      });
+    }
+  };
+
+  /**
+   * GET /scores/player/:playerId/history - Get a player's persisted
+   * submissions, newest first, optionally limited to ?from= / ?to=
+   */
+  getPlayerHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const { error, value } = this.historySchema.validate(req.query);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      const page = await this.dbService.getPlayerHistory(boardId, req.params.playerId, {
+        from: value.from,
+        to: value.to,
+        limit: value.limit,
+        cursor: value.cursor,
+      });
+
+      res.status(200).json({
+        success: true,
+        board_id: page.board_id,
+        player_id: page.player_id,
+        data: page.entries,
+        count: page.entries.length,
+        next_cursor: page.next_cursor,
+      });
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          error: 'Invalid cursor',
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error('[ScoreController] Error fetching player history:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch player history',
+      });
+    }
+  };
+
+  /**
+   * GET /scores/groups/:groupId - Rank the members of a group against each
+   * other
+   */
+  getGroupLeaderboard = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const period = this.resolveWindowPeriod(req, res);
+      if (period === null) {
+        return;
+      }
+
+      const { groupId } = req.params;
+      const members = await this.redisService.getGroupMembers(groupId);
+
+      if (members.length === 0) {
+        res.status(404).json({
+          error: 'Group not found',
+          message: `Group ${groupId} has no members`,
+        });
+        return;
+      }
+
+      const entries = await this.groupLeaderboardService.getRankedView(boardId, members, period);
+
+      res.status(200).json({
+        success: true,
+        board_id: boardId,
+        group_id: groupId,
+        window: period?.window ?? 'alltime',
+        period: period?.period ?? null,
+        data: entries,
+        count: entries.length,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error fetching group leaderboard:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch group leaderboard',
+      });
+    }
+  };
+
+  /**
+   * POST /scores/friends - Rank a player-supplied friend list against each
+   * other
+   */
+  getFriendsLeaderboard = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const period = this.resolveWindowPeriod(req, res);
+      if (period === null) {
+        return;
+      }
+
+      const { error, value } = this.friendsSchema.validate(req.body);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      const entries = await this.groupLeaderboardService.getRankedView(
+        boardId,
+        value.player_ids,
+        period
+      );
+
+      res.status(200).json({
+        success: true,
+        board_id: boardId,
+        window: period?.window ?? 'alltime',
+        period: period?.period ?? null,
+        data: entries,
+        count: entries.length,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error fetching friends leaderboard:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch friends leaderboard',
+      });
+    }
+  };
+
   /**
    * GET /scores/stats - Get leaderboard statistics
    */
   getLeaderboardStats = async (req: Request, res: Response): Promise<void> => {
     try {
-      const totalPlayers = await this.redisService.getTotalPlayers();
-      const cachedLeaderboard = await this.redisService.getCachedLeaderboard();
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const period = this.resolveWindowPeriod(req, res);
+      if (period === null) {
+        return;
+      }
+
+      const summary = await this.statisticsService.getSummary(boardId, period);
+      const cachedLeaderboard = await this.redisService.getCachedLeaderboard(boardId);
 
       res.status(200).json({
         success: true,
         data: {
-          total_players: totalPlayers,
+          board_id: boardId,
+          window: period?.window ?? 'alltime',
+          period: period?.period ?? null,
+          ...summary,
           last_update: cachedLeaderboard?.timestamp || null,
           checksum: cachedLeaderboard?.checksum || null,
         },
@@ -160,15 +872,316 @@ export class ScoreController {
     }
   };
 
+  /**
+   * GET /scores/stats/histogram?buckets=10 or ?edges=0,100,1000 - Get the
+   * score distribution
+   */
+  getScoreHistogram = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const period = this.resolveWindowPeriod(req, res);
+      if (period === null) {
+        return;
+      }
+
+      const { error, value } = this.histogramSchema.validate(req.query);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      const edges: number[] | undefined = value.edges
+        ? Array.from(new Set<number>(value.edges.split(',').map(Number))).sort((a, b) => a - b)
+        : undefined;
+
+      const histogram = await this.statisticsService.getHistogram(
+        boardId,
+        { buckets: value.buckets, edges },
+        period
+      );
+
+      res.status(200).json({
+        success: true,
+        board_id: boardId,
+        window: period?.window ?? 'alltime',
+        period: period?.period ?? null,
+        data: histogram,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error fetching histogram:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch score histogram',
+      });
+    }
+  };
+
+  /**
+   * GET /scores/stats/percentiles?p=50,90,99 - Get the score needed to reach
+   * each percentile
+   */
+  getPercentileThresholds = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const period = this.resolveWindowPeriod(req, res);
+      if (period === null) {
+        return;
+      }
+
+      const { error, value } = this.percentilesSchema.validate(req.query);
+      const percentiles: number[] = error ? [] : value.p.split(',').map(Number);
+
+      if (error || percentiles.some((p) => p <= 0 || p > 100)) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: ['"p" must be a comma-separated list of percentiles in (0, 100]'],
+        });
+        return;
+      }
+
+      const thresholds = await this.statisticsService.getPercentileThresholds(
+        boardId,
+        percentiles,
+        period
+      );
+
+      res.status(200).json({
+        success: true,
+        board_id: boardId,
+        window: period?.window ?? 'alltime',
+        period: period?.period ?? null,
+        data: thresholds,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error fetching percentiles:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch percentile thresholds',
+      });
+    }
+  };
+
+  /**
+   * GET /scores/archives?window=weekly - List closed periods with an
+   * archived final standing
+   */
+  getArchivedPeriods = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const window = req.query.window as TimeWindow;
+      if (!TIME_WINDOWS.includes(window)) {
+        res.status(400).json({
+          error: 'Invalid window',
+          details: [`"window" must be one of ${TIME_WINDOWS.join(', ')}`],
+        });
+        return;
+      }
+
+      const periods = await this.redisService.getArchivedPeriods(boardId, window);
+
+      res.status(200).json({
+        success: true,
+        board_id: boardId,
+        window,
+        data: periods,
+        count: periods.length,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error fetching archived periods:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch archived periods',
+      });
+    }
+  };
+
+  /**
+   * GET /scores/stream?top=10&player_ids=a,b - Stream leaderboard updates
+   * as Server-Sent Events. Without either filter, the top 10 is streamed.
+   */
+  streamScores = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const { error, value } = this.streamSchema.validate(req.query);
+      const lastEventId = this.lastEventIdSchema.validate(req.get('Last-Event-ID') ?? 0);
+
+      if (error || lastEventId.error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: [error, lastEventId.error].filter(Boolean).map((e) => (e as Error).message),
+        });
+        return;
+      }
+
+      const playerIds: string[] = value.player_ids
+        ? Array.from(new Set<string>(value.player_ids.split(',')))
+        : [];
+
+      await this.sseService.open(
+        req,
+        res,
+        {
+          boardId,
+          top: value.top ?? (playerIds.length === 0 ? 10 : null),
+          playerIds,
+        },
+        req.get('Last-Event-ID') === undefined ? null : lastEventId.value
+      );
+    } catch (error) {
+      if (error instanceof TooManyStreamsError) {
+        res.status(503).json({
+          error: 'Too many streams',
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error('[ScoreController] Error opening stream:', error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to open stream',
+      });
+    }
+  };
+
+  /**
+   * GET /boards/:boardId - Get a board's configuration
+   */
+  getBoardConfig = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const config = await this.redisService.getBoardConfig(boardId);
+
+      res.status(200).json({
+        success: true,
+        data: config,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error fetching board config:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to fetch board configuration',
+      });
+    }
+  };
+
+  /**
+   * PUT /boards/:boardId - Create a board or replace its configuration.
+   * A new aggregation policy applies to submissions from then on; stored
+   * scores are not recomputed. Submissions above max_score are quarantined.
+   */
+  updateBoardConfig = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boardId = this.resolveBoardId(req, res);
+      if (boardId === null) {
+        return;
+      }
+
+      const { error, value } = this.boardConfigSchema.validate(req.body);
+
+      if (error) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: error.details.map((d) => d.message),
+        });
+        return;
+      }
+
+      const config: BoardConfig = {
+        board_id: boardId,
+        aggregation: value.aggregation,
+        max_score: value.max_score,
+      };
+      await this.redisService.setBoardConfig(config);
+
+      console.log(`[ScoreController] Board ${boardId} configured:`, config);
+
+      res.status(200).json({
+        success: true,
+        data: config,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error updating board config:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to update board configuration',
+      });
+    }
+  };
+
+  /**
+   * GET /boards - List boards that have received scores
+   */
+  listBoards = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const boards = await this.redisService.getBoards();
+
+      res.status(200).json({
+        success: true,
+        data: boards,
+        count: boards.length,
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error listing boards:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to list boards',
+      });
+    }
+  };
+
   /**
    * Health check endpoint
    */
   healthCheck = async (req: Request, res: Response): Promise<void> => {
-    res.status(200).json({
-      success: true,
-      message: 'Leaderboard service is healthy',
-      timestamp: Date.now(),
-    });
+    try {
+      // Leaderboards may be incomplete while they are restored from the database
+      const { state } = await this.rebuildService.getStatus();
+      // Accepted submissions not yet published to Kafka
+      const outboxPending = await this.redisService.getOutboxLength();
+
+      res.status(200).json({
+        success: true,
+        message: 'Leaderboard service is healthy',
+        status: state === 'rebuilding' ? 'rebuilding' : 'ready',
+        outbox_pending: outboxPending,
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      console.error('[ScoreController] Error checking health:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to check health',
+      });
+    }
   };
 }
 
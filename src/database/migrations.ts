@@ -0,0 +1,107 @@
+/**
+ * PostgreSQL schema migrations, applied in order by
+ * PostgresDatabaseService.connect(). Never edit a released migration;
+ * append a new one instead.
+ */
+export interface Migration {
+  id: number;
+  name: string;
+  sql: string;
+}
+
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'initial_schema',
+    sql: `
+-- Scores table (every submission)
+CREATE TABLE IF NOT EXISTS scores (
+  id BIGSERIAL PRIMARY KEY,
+  board_id VARCHAR(64) NOT NULL DEFAULT 'global',
+  player_id VARCHAR(255) NOT NULL,
+  score BIGINT NOT NULL,
+  aggregation VARCHAR(16) NOT NULL DEFAULT 'best',
+  timestamp TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(board_id, player_id, timestamp)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scores_player_id ON scores(player_id);
+CREATE INDEX IF NOT EXISTS idx_scores_timestamp ON scores(timestamp);
+CREATE INDEX IF NOT EXISTS idx_scores_score ON scores(score DESC);
+
+-- Stored score per board and player, aggregated by the board's policy
+CREATE TABLE IF NOT EXISTS player_scores (
+  board_id VARCHAR(64) NOT NULL,
+  player_id VARCHAR(255) NOT NULL,
+  score BIGINT NOT NULL,
+  aggregation VARCHAR(16) NOT NULL,
+  achieved_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (board_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_scores_board_score ON player_scores(board_id, score DESC);
+
+-- Users table
+CREATE TABLE IF NOT EXISTS users (
+  id VARCHAR(255) PRIMARY KEY,
+  username VARCHAR(255) NOT NULL UNIQUE,
+  email VARCHAR(255),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Dead letter queue table
+CREATE TABLE IF NOT EXISTS dead_letter_queue (
+  id SERIAL PRIMARY KEY,
+  payload JSONB NOT NULL,
+  error_message TEXT,
+  retry_count INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+`,
+  },
+  {
+    id: 2,
+    name: 'scores_rank_at_submission',
+    sql: `
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS rank_at_submission INTEGER;
+`,
+  },
+  {
+    id: 3,
+    name: 'scores_accepted_at',
+    sql: `
+-- Server time of acceptance, which ranks equal scores; rows saved before
+-- it was recorded fall back to when they were persisted
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMPTZ;
+UPDATE scores SET accepted_at = COALESCE(created_at, timestamp) WHERE accepted_at IS NULL;
+`,
+  },
+  {
+    id: 4,
+    name: 'saved_batches',
+    sql: `
+-- Batches saved under an id (dead letter replays), so each is saved once
+CREATE TABLE IF NOT EXISTS saved_batches (
+  batch_id VARCHAR(255) PRIMARY KEY,
+  saved_at TIMESTAMPTZ DEFAULT NOW()
+);
+`,
+  },
+  {
+    id: 5,
+    name: 'score_adjustments',
+    sql: `
+-- Moderation changes to stored scores (removals, wipes, overrides), applied
+-- again when Redis is rebuilt; NULL board or player ids match all
+CREATE TABLE IF NOT EXISTS score_adjustments (
+  id BIGSERIAL PRIMARY KEY,
+  action VARCHAR(16) NOT NULL,
+  board_id VARCHAR(64),
+  player_id VARCHAR(255),
+  score BIGINT,
+  applied_at TIMESTAMPTZ NOT NULL
+);
+`,
+  },
+];
@@ -0,0 +1,82 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Role } from '../types';
+import { AuthService, InvalidCredentialsError, hasRole } from '../services/AuthService';
+
+/**
+ * Resolve the caller from the X-API-Key header or an
+ * "Authorization: Bearer <jwt>" header. Responds with 401 when the
+ * credentials are invalid; requests without credentials continue as
+ * anonymous.
+ *
+ * Event stream requests may pass the token as an access_token query
+ * parameter instead, since EventSource cannot set headers.
+ */
+export function createAuthenticate(authService: AuthService): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const authorization = req.get('Authorization');
+    const bearer = authorization?.match(/^Bearer\s+(\S+)$/i);
+
+    if (authorization !== undefined && !bearer) {
+      res.status(401).json({
+        error: 'Invalid credentials',
+        message: 'Authorization header must be "Bearer <token>"',
+      });
+      return;
+    }
+
+    try {
+      req.principal = authService.authenticate({
+        apiKey: req.get('X-API-Key'),
+        bearerToken: bearer?.[1] ?? streamToken(req),
+      });
+      next();
+    } catch (error) {
+      if (error instanceof InvalidCredentialsError) {
+        res.status(401).json({
+          error: 'Invalid credentials',
+          message: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * Allow only callers with the role (admins may do everything). Anonymous
+ * callers are asked to authenticate with 401, authenticated ones without
+ * the role get 403.
+ */
+export function requireRole(role: Role): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const principal = req.principal;
+
+    if (principal && hasRole(principal, role)) {
+      next();
+      return;
+    }
+
+    if (!principal?.authenticated) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: `This endpoint requires the ${role} role`,
+      });
+      return;
+    }
+
+    res.status(403).json({
+      error: 'Forbidden',
+      message: `This endpoint requires the ${role} role`,
+    });
+  };
+}
+
+/**
+ * The access_token query parameter of an EventSource request
+ */
+function streamToken(req: Request): string | undefined {
+  const token = req.query.access_token;
+  const isEventStream = req.get('Accept')?.includes('text/event-stream') ?? false;
+  return isEventStream && typeof token === 'string' ? token : undefined;
+}
@@ -0,0 +1,51 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+const ALLOWED_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'X-API-Key',
+  'Idempotency-Key',
+  'X-Client-Id',
+  'X-Signature-Timestamp',
+  'X-Signature-Nonce',
+  'X-Signature',
+].join(', ');
+
+const EXPOSED_HEADERS = [
+  'Idempotent-Replayed',
+  'Retry-After',
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+].join(', ');
+
+/**
+ * CORS headers for browser clients on the allowed origins. "*" allows any
+ * origin; with no origins, cross-origin browser requests are refused.
+ */
+export function createCors(allowedOrigins: string[]): RequestHandler {
+  const anyOrigin = allowedOrigins.includes('*');
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const origin = req.get('Origin');
+
+    if (anyOrigin) {
+      res.header('Access-Control-Allow-Origin', '*');
+    } else {
+      // The response depends on the Origin header, so caches must key on it
+      res.vary('Origin');
+      if (origin !== undefined && allowedOrigins.includes(origin)) {
+        res.header('Access-Control-Allow-Origin', origin);
+      }
+    }
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+    res.header('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(200);
+    } else {
+      next();
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { RateLimitDecision, RateLimitRoute } from '../types';
+import { RateLimitService } from '../services/RateLimitService';
+
+/**
+ * Builds the rate limiting middleware for a kind of route
+ */
+export type RateLimiter = (route: RateLimitRoute) => RequestHandler;
+
+/**
+ * Rate limit requests, responding with 429 and Retry-After once a limit is
+ * exhausted. Every limited response carries RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset (seconds until the limit is fully
+ * restored). Requests are let through if Redis cannot be reached.
+ */
+export function createRateLimiter(rateLimitService: RateLimitService): RateLimiter {
+  return (route: RateLimitRoute): RequestHandler =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      let decision: RateLimitDecision | null;
+      try {
+        const playerId = route === 'submit' ? req.body?.player_id : undefined;
+        decision = await rateLimitService.check(route, {
+          principal: req.principal,
+          ip: req.ip ?? 'unknown',
+          playerId: typeof playerId === 'string' ? playerId : undefined,
+        });
+      } catch (error) {
+        console.error('[RateLimit] Error checking rate limit, allowing request:', error);
+        next();
+        return;
+      }
+
+      if (!decision) {
+        next();
+        return;
+      }
+
+      res.set({
+        'RateLimit-Limit': decision.limit.toString(),
+        'RateLimit-Remaining': decision.remaining.toString(),
+        'RateLimit-Reset': decision.resetSeconds.toString(),
+      });
+
+      if (!decision.allowed) {
+        res.set('Retry-After', decision.retryAfterSeconds.toString());
+        res.status(429).json({
+          error: 'Too many requests',
+          message: `Rate limit exceeded, retry in ${decision.retryAfterSeconds}s`,
+        });
+        return;
+      }
+
+      next();
+    };
+}
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { requireRole } from '../middleware/auth';
+import { RateLimiter } from '../middleware/rateLimit';
+
+export function createAdminRoutes(controller: AdminController, rateLimit: RateLimiter): Router {
+  const router = Router();
+
+  // Rate limit, then check the caller's role
+  const admin = [rateLimit('admin'), requireRole('admin')];
+
+  // POST /admin/rebuild - Rebuild the Redis leaderboards from the database
+  router.post('/admin/rebuild', admin, controller.startRebuild);
+
+  // GET /admin/rebuild - Get rebuild progress
+  router.get('/admin/rebuild', admin, controller.getRebuildStatus);
+
+  // GET /admin/dlq - List dead letter queue entries
+  router.get('/admin/dlq', admin, controller.listDeadLetters);
+
+  // POST /admin/dlq/replay - Replay every pending entry
+  router.post('/admin/dlq/replay', admin, controller.replayAllDeadLetters);
+
+  // GET /admin/dlq/:id - Inspect an entry and its submissions
+  router.get('/admin/dlq/:id', admin, controller.getDeadLetter);
+
+  // POST /admin/dlq/:id/replay - Replay an entry
+  router.post('/admin/dlq/:id/replay', admin, controller.replayDeadLetter);
+
+  // DELETE /admin/dlq/:id - Discard an entry
+  router.delete('/admin/dlq/:id', admin, controller.discardDeadLetter);
+
+  // GET /admin/quarantine - List submissions awaiting review
+  router.get('/admin/quarantine', admin, controller.listQuarantined);
+
+  // GET /admin/quarantine/:id - Inspect a quarantined submission
+  router.get('/admin/quarantine/:id', admin, controller.getQuarantined);
+
+  // POST /admin/quarantine/:id/approve - Apply a submission to its board
+  router.post('/admin/quarantine/:id/approve', admin, controller.approveQuarantined);
+
+  // POST /admin/quarantine/:id/reject - Discard a submission
+  router.post('/admin/quarantine/:id/reject', admin, controller.rejectQuarantined);
+
+  return router;
+}
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { GroupController } from '../controllers/GroupController';
+import { requireRole } from '../middleware/auth';
+import { RateLimiter } from '../middleware/rateLimit';
+
+export function createGroupRoutes(controller: GroupController, rateLimit: RateLimiter): Router {
+  const router = Router();
+
+  // Rate limit, then check the caller's role. Membership changes count as
+  // submissions.
+  const read = [rateLimit('read'), requireRole('reader')];
+  const submit = [rateLimit('submit'), requireRole('submitter')];
+
+  // GET /groups/:groupId - Get a group's members
+  router.get('/groups/:groupId', read, controller.getGroup);
+
+  // PUT /groups/:groupId - Create a group or replace its members
+  router.put('/groups/:groupId', submit, controller.setGroupMembers);
+
+  // DELETE /groups/:groupId - Delete a group
+  router.delete('/groups/:groupId', submit, controller.deleteGroup);
+
+  // POST /groups/:groupId/members - Add players to a group
+  router.post('/groups/:groupId/members', submit, controller.addGroupMembers);
+
+  // DELETE /groups/:groupId/members/:playerId - Remove a player from a group
+  router.delete('/groups/:groupId/members/:playerId', submit, controller.removeGroupMember);
+
+  return router;
+}
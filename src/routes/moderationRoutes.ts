@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { ModerationController } from '../controllers/ModerationController';
+import { requireRole } from '../middleware/auth';
+import { RateLimiter } from '../middleware/rateLimit';
+
+export function createModerationRoutes(
+  controller: ModerationController,
+  rateLimit: RateLimiter
+): Router {
+  const router = Router();
+
+  // Rate limit, then check the caller's role
+  const admin = [rateLimit('admin'), requireRole('admin')];
+
+  // DELETE /admin/players/:playerId - Remove a player from every board
+  router.delete('/admin/players/:playerId', admin, controller.removePlayer);
+
+  // DELETE /admin/boards/:boardId/players/:playerId - Reset a player's score
+  router.delete('/admin/boards/:boardId/players/:playerId', admin, controller.resetScore);
+
+  // PUT /admin/boards/:boardId/players/:playerId/score - Override a score
+  router.put('/admin/boards/:boardId/players/:playerId/score', admin, controller.overrideScore);
+
+  // DELETE /admin/boards/:boardId/scores - Wipe a board
+  router.delete('/admin/boards/:boardId/scores', admin, controller.wipeBoard);
+
+  // GET /admin/bans - List banned players
+  router.get('/admin/bans', admin, controller.listBans);
+
+  // GET /admin/bans/:playerId - Get a player's ban
+  router.get('/admin/bans/:playerId', admin, controller.getBan);
+
+  // PUT /admin/bans/:playerId - Ban a player
+  router.put('/admin/bans/:playerId', admin, controller.banPlayer);
+
+  // DELETE /admin/bans/:playerId - Lift a player's ban
+  router.delete('/admin/bans/:playerId', admin, controller.unbanPlayer);
+
+  // GET /admin/audit - Query the moderation audit log
+  router.get('/admin/audit', admin, controller.getAuditLog);
+
+  return router;
+}
@@ -1,24 +1,85 @@
 import { Router } from 'express';
 import { ScoreController } from '../controllers/ScoreController';
+import { requireRole } from '../middleware/auth';
+import { RateLimiter } from '../middleware/rateLimit';
 
-export function createScoreRoutes(controller: ScoreController): Router {
-  const router = Router();
+/**
+ * Per-board score endpoints. Mounted at the API root for the default board
+ * and under /boards/:boardId for named boards.
+ */
+function createBoardScopedRoutes(controller: ScoreController, rateLimit: RateLimiter): Router {
+  const router = Router({ mergeParams: true });
+
+  // Rate limit, then check the caller's role
+  const read = [rateLimit('read'), requireRole('reader')];
+  const submit = [rateLimit('submit'), requireRole('submitter')];
 
   // POST /scores - Submit a score
-  router.post('/scores', controller.submitScore);
+  router.post('/scores', submit, controller.submitScore);
 
   // GET /scores/top - Get top N players
-  router.get('/scores/top', controller.getTopPlayers);
+  router.get('/scores/top', read, controller.getTopPlayers);
 
   // GET /scores/player/:playerId - Get player's rank and score
-  router.get('/scores/player/:playerId', controller.getPlayerStats);
+  router.get('/scores/player/:playerId', read, controller.getPlayerStats);
+
+  // GET /scores/player/:playerId/around - Get players ranked around a player
+  router.get('/scores/player/:playerId/around', read, controller.getPlayersAround);
+
+  // GET /scores/player/:playerId/history - Get a player's submission history
+  router.get('/scores/player/:playerId/history', read, controller.getPlayerHistory);
+
+  // GET /scores/groups/:groupId - Rank a group's members against each other
+  router.get('/scores/groups/:groupId', read, controller.getGroupLeaderboard);
+
+  // POST /scores/friends - Rank a supplied friend list against each other
+  router.post('/scores/friends', read, controller.getFriendsLeaderboard);
 
   // GET /scores/stats - Get leaderboard statistics
-  router.get('/scores/stats', controller.getLeaderboardStats);
+  router.get('/scores/stats', read, controller.getLeaderboardStats);
+
+  // GET /scores/stats/histogram - Get the score distribution
+  router.get('/scores/stats/histogram', read, controller.getScoreHistogram);
+
+  // GET /scores/stats/percentiles - Get scores needed to reach percentiles
+  router.get('/scores/stats/percentiles', read, controller.getPercentileThresholds);
+
+  // GET /scores/stream - Stream leaderboard updates as Server-Sent Events
+  router.get('/scores/stream', read, controller.streamScores);
+
+  // GET /scores/archives?window=weekly - List archived periods of a window
+  router.get('/scores/archives', read, controller.getArchivedPeriods);
+
+  return router;
+}
+
+export function createScoreRoutes(controller: ScoreController, rateLimit: RateLimiter): Router {
+  const router = Router();
+
+  // Rate limit, then check the caller's role
+  const read = [rateLimit('read'), requireRole('reader')];
+  const admin = [rateLimit('admin'), requireRole('admin')];
+
+  // GET /boards - List known boards
+  router.get('/boards', read, controller.listBoards);
+
+  // GET /boards/:boardId - Get board configuration
+  router.get('/boards/:boardId', read, controller.getBoardConfig);
+
+  // PUT /boards/:boardId - Create or configure a board
+  router.put('/boards/:boardId', admin, controller.updateBoardConfig);
+
+  // GET /boards/:boardId/top - Shorthand for /boards/:boardId/scores/top
+  router.get('/boards/:boardId/top', read, controller.getTopPlayers);
+
+  // Named boards: /boards/:boardId/scores, /boards/:boardId/scores/top, ...
+  router.use('/boards/:boardId', createBoardScopedRoutes(controller, rateLimit));
+
+  // Default board: /scores, /scores/top, ...
+  router.use('/', createBoardScopedRoutes(controller, rateLimit));
 
   // GET /health - Health check
   router.get('/health', controller.healthCheck);
 
   return router;
 }
-
@@ -3,11 +3,50 @@ import * as http from 'http';
 import { RedisService } from './services/RedisService';
 import { KafkaService } from './services/KafkaService';
 import { DatabaseService } from './services/DatabaseService';
+import { MockDatabaseService } from './services/MockDatabaseService';
+import { PostgresDatabaseService } from './services/PostgresDatabaseService';
 import { BatchSavingService } from './services/BatchSavingService';
 import { LeaderboardProcessingService } from './services/LeaderboardProcessingService';
-import { WebSocketService } from './services/WebSocketService';
+import { WebSocketLimits, WebSocketService } from './services/WebSocketService';
+import { LeaderboardFeedService } from './services/LeaderboardFeedService';
+import {
+  ServerSentEventsLimits,
+  ServerSentEventsService,
+} from './services/ServerSentEventsService';
+import { TimeWindowService } from './services/TimeWindowService';
+import { LeaderboardStatisticsService } from './services/LeaderboardStatisticsService';
+import { GroupLeaderboardService } from './services/GroupLeaderboardService';
+import { RankNotificationService } from './services/RankNotificationService';
+import { RebuildService, RebuildInProgressError } from './services/RebuildService';
+import { FileDeadLetterQueue } from './services/FileDeadLetterQueue';
+import { DeadLetterService } from './services/DeadLetterService';
+import { OutboxRelayService } from './services/OutboxRelayService';
+import {
+  AntiCheatService,
+  ImprovementRule,
+  MaxScoreRule,
+  SubmissionFrequencyRule,
+  TimestampRule,
+} from './services/AntiCheatService';
+import { QuarantineService } from './services/QuarantineService';
+import { SignatureService, parseSigningClients } from './services/SignatureService';
+import { AuthService, parseApiKeys } from './services/AuthService';
+import { RateLimitService, parseRateLimits } from './services/RateLimitService';
+import { AuditLogService } from './services/AuditLogService';
+import { ModerationService } from './services/ModerationService';
 import { ScoreController } from './controllers/ScoreController';
+import { GroupController } from './controllers/GroupController';
+import { AdminController } from './controllers/AdminController';
+import { ModerationController } from './controllers/ModerationController';
 import { createScoreRoutes } from './routes/scoreRoutes';
+import { createGroupRoutes } from './routes/groupRoutes';
+import { createAdminRoutes } from './routes/adminRoutes';
+import { createModerationRoutes } from './routes/moderationRoutes';
+import { createAuthenticate } from './middleware/auth';
+import { createCors } from './middleware/cors';
+import { createRateLimiter, RateLimiter } from './middleware/rateLimit';
+import { Role, ROLES } from './types';
+import * as os from 'os';
 
 // Configuration from environment variables
 const PORT = parseInt(process.env.PORT || '3000', 10);
@@ -15,19 +54,137 @@ const REDIS_HOST = process.env.REDIS_HOST || 'localhost';
 const REDIS_PORT = parseInt(process.env.REDIS_PORT || '6379', 10);
 const KAFKA_BROKERS = (process.env.KAFKA_BROKERS || 'localhost:9092').split(',');
 const KAFKA_CLIENT_ID = process.env.KAFKA_CLIENT_ID || 'leaderboard-service';
+// Identifies this instance for consumers that every instance must run. Their
+// groups are deleted on a clean shutdown; after a crash a stable id lets the
+// restarted instance reuse its group instead of leaving it behind
+const INSTANCE_ID = process.env.INSTANCE_ID || os.hostname();
+// Without a connection string, scores are only logged by the mock database
+const DATABASE_URL = process.env.DATABASE_URL;
+const DATABASE_POOL_SIZE = parseInt(process.env.DATABASE_POOL_SIZE || '10', 10);
+// Defaults to data/dead_letter_queue.jsonl
+const DEAD_LETTER_QUEUE_PATH = process.env.DEAD_LETTER_QUEUE_PATH;
 const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '100', 10);
 const THROTTLE_DURATION_MS = parseInt(process.env.THROTTLE_DURATION_MS || '500', 10);
+// Published leaderboard versions kept per board for WebSocket clients to catch up from
+const LEADERBOARD_HISTORY_SIZE = parseInt(process.env.LEADERBOARD_HISTORY_SIZE || '50', 10);
+const STATISTICS_CACHE_TTL_SECONDS = parseInt(
+  process.env.STATISTICS_CACHE_TTL_SECONDS || '30',
+  10
+);
+const LEADERBOARD_TIMEZONE = process.env.LEADERBOARD_TIMEZONE || 'UTC';
+// 0 keeps archived periods forever
+const WINDOW_ARCHIVE_RETENTION_DAYS = parseInt(
+  process.env.WINDOW_ARCHIVE_RETENTION_DAYS || '0',
+  10
+);
+// How long submission ids are remembered for deduplication
+const IDEMPOTENCY_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10);
+// Plausibility rules; a limit of 0 disables the improvement and frequency rules
+const ANTI_CHEAT_MAX_IMPROVEMENT = parseInt(process.env.ANTI_CHEAT_MAX_IMPROVEMENT || '0', 10);
+const ANTI_CHEAT_IMPROVEMENT_WINDOW_SECONDS = parseInt(
+  process.env.ANTI_CHEAT_IMPROVEMENT_WINDOW_SECONDS || '3600',
+  10
+);
+const ANTI_CHEAT_MAX_SUBMISSIONS = parseInt(process.env.ANTI_CHEAT_MAX_SUBMISSIONS || '30', 10);
+const ANTI_CHEAT_FREQUENCY_WINDOW_SECONDS = parseInt(
+  process.env.ANTI_CHEAT_FREQUENCY_WINDOW_SECONDS || '60',
+  10
+);
+const ANTI_CHEAT_MAX_FUTURE_SECONDS = parseInt(
+  process.env.ANTI_CHEAT_MAX_FUTURE_SECONDS || '60',
+  10
+);
+const ANTI_CHEAT_MAX_AGE_SECONDS = parseInt(
+  process.env.ANTI_CHEAT_MAX_AGE_SECONDS || String(7 * 24 * 60 * 60),
+  10
+);
+// How long approved and rejected submissions stay inspectable
+const QUARANTINE_RETENTION_DAYS = parseInt(process.env.QUARANTINE_RETENTION_DAYS || '30', 10);
+// Trusted clients that must sign submissions, as JSON keyed by client id;
+// unset accepts unsigned submissions
+const SIGNING_CLIENTS = parseSigningClients(process.env.SIGNING_CLIENTS);
+// How far a signature timestamp may be from the server clock
+const SIGNATURE_TOLERANCE_SECONDS = parseInt(process.env.SIGNATURE_TOLERANCE_SECONDS || '300', 10);
+// API keys with their roles, as JSON keyed by the key holder's name
+const API_KEYS = parseApiKeys(process.env.API_KEYS);
+// Secret for HS256 bearer tokens; iss and aud are checked when set
+const JWT_SECRET = process.env.JWT_SECRET;
+const JWT_ISSUER = process.env.JWT_ISSUER;
+const JWT_AUDIENCE = process.env.JWT_AUDIENCE;
+// Roles of requests without credentials once authentication is configured
+const ANONYMOUS_ROLES = (process.env.ANONYMOUS_ROLES || '')
+  .split(',')
+  .map((role) => role.trim())
+  .filter((role): role is Role => ROLES.includes(role as Role));
+// Origins allowed to call the API from a browser; * allows any
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter((origin) => origin !== '');
+// Overrides of the default rate limits, as JSON by route and caller class
+const RATE_LIMITS = parseRateLimits(process.env.RATE_LIMITS);
+// Express trust proxy setting, so client IPs are taken from X-Forwarded-For
+// behind a load balancer, e.g. 1 for a single proxy hop
+const TRUST_PROXY = process.env.TRUST_PROXY;
+// Moderation audit entries kept, oldest trimmed first
+const AUDIT_LOG_MAX_ENTRIES = parseInt(process.env.AUDIT_LOG_MAX_ENTRIES || '100000', 10);
+// WebSocket connection governance; slow consumers have their leaderboard
+// updates coalesced into snapshots, or dropped
+const WEBSOCKET_LIMITS: WebSocketLimits = {
+  maxConnections: parseInt(process.env.WS_MAX_CONNECTIONS || '10000', 10),
+  maxConnectionsPerIp: parseInt(process.env.WS_MAX_CONNECTIONS_PER_IP || '20', 10),
+  maxMessageBytes: parseInt(process.env.WS_MAX_MESSAGE_BYTES || '16384', 10),
+  maxBufferedBytes: parseInt(process.env.WS_MAX_BUFFERED_BYTES || '1048576', 10),
+  slowConsumerPolicy: process.env.WS_SLOW_CONSUMER_POLICY === 'drop' ? 'drop' : 'coalesce',
+  pingIntervalMs: parseInt(process.env.WS_PING_INTERVAL_MS || '30000', 10),
+};
+// Server-Sent Events streams; slow streams miss leaderboard updates until
+// their buffer drains, then catch up with a snapshot
+const SSE_LIMITS: ServerSentEventsLimits = {
+  maxConnections: parseInt(process.env.SSE_MAX_CONNECTIONS || '10000', 10),
+  maxBufferedBytes: parseInt(process.env.SSE_MAX_BUFFERED_BYTES || '1048576', 10),
+  heartbeatIntervalMs: parseInt(process.env.SSE_HEARTBEAT_MS || '15000', 10),
+};
+// Identified players are told when they enter this top N of a board
+const RANK_NOTIFICATION_TOP_N = parseInt(process.env.RANK_NOTIFICATION_TOP_N || '10', 10);
+// auto rebuilds Redis from the database only when it holds no boards
+const REBUILD_ON_START = process.env.REBUILD_ON_START || 'auto';
+const REBUILD_CHUNK_SIZE = parseInt(process.env.REBUILD_CHUNK_SIZE || '1000', 10);
 
 class LeaderboardServer {
   private app: Application;
   private server: http.Server;
   private redisService: RedisService;
   private kafkaService: KafkaService;
+  // Consumers shared with the other instances, and those with a group of
+  // this instance's own, deleted on shutdown
+  private sharedConsumers: KafkaService[] = [];
+  private instanceConsumers: KafkaService[] = [];
   private dbService: DatabaseService;
   private batchSavingService: BatchSavingService;
   private leaderboardProcessingService: LeaderboardProcessingService;
+  private feedService: LeaderboardFeedService;
   private wsService: WebSocketService;
+  private sseService: ServerSentEventsService;
+  private timeWindowService: TimeWindowService;
+  private statisticsService: LeaderboardStatisticsService;
+  private groupLeaderboardService: GroupLeaderboardService;
+  private rankNotificationService: RankNotificationService;
+  private rebuildService: RebuildService;
+  private deadLetterService: DeadLetterService;
+  private outboxRelayService: OutboxRelayService;
+  private antiCheatService: AntiCheatService;
+  private quarantineService: QuarantineService;
+  private signatureService: SignatureService;
+  private authService: AuthService;
+  private rateLimitService: RateLimitService;
+  private rateLimiter: RateLimiter;
+  private auditLogService: AuditLogService;
+  private moderationService: ModerationService;
   private scoreController: ScoreController;
+  private groupController: GroupController;
+  private adminController: AdminController;
+  private moderationController: ModerationController;
 
   constructor() {
     this.app = express();
@@ -36,27 +193,174 @@ class LeaderboardServer {
     // Initialize services
     this.redisService = new RedisService(REDIS_HOST, REDIS_PORT);
     this.kafkaService = new KafkaService(KAFKA_BROKERS, KAFKA_CLIENT_ID);
-    this.dbService = new DatabaseService();
+    const deadLetterQueue = new FileDeadLetterQueue(DEAD_LETTER_QUEUE_PATH);
+    this.dbService = DATABASE_URL
+      ? new PostgresDatabaseService(DATABASE_URL, DATABASE_POOL_SIZE, deadLetterQueue)
+      : new MockDatabaseService(deadLetterQueue);
     this.batchSavingService = new BatchSavingService(BATCH_SIZE, this.dbService);
+    this.deadLetterService = new DeadLetterService(deadLetterQueue, this.batchSavingService);
     this.leaderboardProcessingService = new LeaderboardProcessingService(
       this.redisService,
       this.kafkaService,
       this.dbService,
-      THROTTLE_DURATION_MS
+      THROTTLE_DURATION_MS,
+      LEADERBOARD_HISTORY_SIZE
+    );
+    this.authService = new AuthService(
+      API_KEYS,
+      JWT_SECRET ? { secret: JWT_SECRET, issuer: JWT_ISSUER, audience: JWT_AUDIENCE } : null,
+      ANONYMOUS_ROLES
+    );
+    this.feedService = new LeaderboardFeedService(
+      this.redisService,
+      this.leaderboardProcessingService
+    );
+    this.wsService = new WebSocketService(
+      this.server,
+      this.authService,
+      this.feedService,
+      WEBSOCKET_LIMITS,
+      (req) => this.resolveClientIp(req)
+    );
+    this.sseService = new ServerSentEventsService(this.feedService, SSE_LIMITS);
+    this.timeWindowService = new TimeWindowService(
+      this.redisService,
+      LEADERBOARD_TIMEZONE,
+      WINDOW_ARCHIVE_RETENTION_DAYS * 24 * 60 * 60
+    );
+    this.statisticsService = new LeaderboardStatisticsService(
+      this.redisService,
+      STATISTICS_CACHE_TTL_SECONDS
+    );
+    this.groupLeaderboardService = new GroupLeaderboardService(
+      this.redisService,
+      this.leaderboardProcessingService,
+      this.wsService
+    );
+    this.rankNotificationService = new RankNotificationService(
+      this.redisService,
+      this.wsService,
+      RANK_NOTIFICATION_TOP_N
+    );
+    this.antiCheatService = new AntiCheatService([
+      new MaxScoreRule(),
+      new TimestampRule(ANTI_CHEAT_MAX_FUTURE_SECONDS, ANTI_CHEAT_MAX_AGE_SECONDS),
+    ]);
+    if (ANTI_CHEAT_MAX_IMPROVEMENT > 0) {
+      this.antiCheatService.addRule(
+        new ImprovementRule(
+          this.redisService,
+          ANTI_CHEAT_MAX_IMPROVEMENT,
+          ANTI_CHEAT_IMPROVEMENT_WINDOW_SECONDS
+        )
+      );
+    }
+    if (ANTI_CHEAT_MAX_SUBMISSIONS > 0) {
+      this.antiCheatService.addRule(
+        new SubmissionFrequencyRule(
+          this.redisService,
+          ANTI_CHEAT_MAX_SUBMISSIONS,
+          ANTI_CHEAT_FREQUENCY_WINDOW_SECONDS
+        )
+      );
+    }
+    this.quarantineService = new QuarantineService(
+      this.redisService,
+      this.timeWindowService,
+      QUARANTINE_RETENTION_DAYS * 24 * 60 * 60
+    );
+    this.auditLogService = new AuditLogService(this.redisService, AUDIT_LOG_MAX_ENTRIES);
+    this.moderationService = new ModerationService(
+      this.redisService,
+      this.dbService,
+      this.timeWindowService,
+      this.leaderboardProcessingService,
+      this.auditLogService
+    );
+    this.rateLimitService = new RateLimitService(this.redisService, RATE_LIMITS);
+    this.rateLimiter = createRateLimiter(this.rateLimitService);
+    this.signatureService = new SignatureService(
+      this.redisService,
+      SIGNING_CLIENTS,
+      SIGNATURE_TOLERANCE_SECONDS
+    );
+    this.outboxRelayService = new OutboxRelayService(
+      this.redisService,
+      this.kafkaService,
+      INSTANCE_ID
+    );
+    this.rebuildService = new RebuildService(
+      this.redisService,
+      this.dbService,
+      this.timeWindowService,
+      INSTANCE_ID,
+      REBUILD_CHUNK_SIZE
     );
-    this.wsService = new WebSocketService(this.server);
     this.scoreController = new ScoreController(
       this.redisService,
-      this.kafkaService
+      this.timeWindowService,
+      this.leaderboardProcessingService,
+      this.statisticsService,
+      this.groupLeaderboardService,
+      this.dbService,
+      this.rebuildService,
+      this.antiCheatService,
+      this.quarantineService,
+      this.signatureService,
+      this.moderationService,
+      this.sseService,
+      IDEMPOTENCY_TTL_SECONDS
+    );
+    this.groupController = new GroupController(this.redisService);
+    this.adminController = new AdminController(
+      this.rebuildService,
+      this.deadLetterService,
+      this.quarantineService
+    );
+    this.moderationController = new ModerationController(
+      this.moderationService,
+      this.auditLogService
     );
 
     this.setupMiddleware();
     this.setupRoutes();
   }
 
+  /**
+   * Client address of a request Express has not seen, such as a WebSocket
+   * upgrade, resolved like req.ip with the trust proxy setting
+   */
+  private resolveClientIp(req: http.IncomingMessage): string {
+    const request: express.Request = Object.create(express.request, {
+      app: { value: this.app },
+      headers: { value: req.headers },
+      connection: { value: req.socket },
+      socket: { value: req.socket },
+    });
+    return request.ip ?? 'unknown';
+  }
+
   private setupMiddleware(): void {
-    // Parse JSON bodies
-    this.app.use(express.json());
+    // A hop count, true, or a list of trusted proxy addresses and subnets
+    if (TRUST_PROXY !== undefined) {
+      this.app.set(
+        'trust proxy',
+        TRUST_PROXY === 'true'
+          ? true
+          : /^\d+$/.test(TRUST_PROXY)
+            ? parseInt(TRUST_PROXY, 10)
+            : TRUST_PROXY
+      );
+    }
+
+    // Parse JSON bodies, keeping the raw bytes for signature verification
+    this.app.use(
+      express.json({
+        verify: (req, res, buf) => {
+          (req as express.Request).rawBody = buf;
+        },
+      })
+    );
 
     // Log requests
     this.app.use((req, res, next) => {
@@ -64,22 +368,25 @@ class LeaderboardServer {
       next();
     });
 
-    // CORS headers (adjust for production)
-    this.app.use((req, res, next) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-      if (req.method === 'OPTIONS') {
-        res.sendStatus(200);
-      } else {
-        next();
-      }
-    });
+    // CORS headers for the configured origins
+    this.app.use(createCors(CORS_ORIGINS));
+
+    // Resolve the caller; routes check its roles
+    this.app.use(createAuthenticate(this.authService));
   }
 
   private setupRoutes(): void {
     // Score routes
-    this.app.use('/api', createScoreRoutes(this.scoreController));
+    this.app.use('/api', createScoreRoutes(this.scoreController, this.rateLimiter));
+
+    // Group routes
+    this.app.use('/api', createGroupRoutes(this.groupController, this.rateLimiter));
+
+    // Admin routes
+    this.app.use('/api', createAdminRoutes(this.adminController, this.rateLimiter));
+
+    // Moderation routes
+    this.app.use('/api', createModerationRoutes(this.moderationController, this.rateLimiter));
 
     // Root endpoint
     this.app.get('/', (req, res) => {
@@ -89,9 +396,52 @@ class LeaderboardServer {
         endpoints: {
           scores: {
             submit: 'POST /api/scores',
-            topPlayers: 'GET /api/scores/top?limit=10',
-            playerStats: 'GET /api/scores/player/:playerId',
+            topPlayers: 'GET /api/scores/top?limit=10&window=weekly&period=2026-W42',
+            playerStats: 'GET /api/scores/player/:playerId?window=daily',
+            aroundPlayer: 'GET /api/scores/player/:playerId/around?before=5&after=5',
+            playerHistory: 'GET /api/scores/player/:playerId/history?from=&to=&limit=20',
             stats: 'GET /api/scores/stats',
+            histogram: 'GET /api/scores/stats/histogram?buckets=10',
+            percentiles: 'GET /api/scores/stats/percentiles?p=50,90,99',
+            archives: 'GET /api/scores/archives?window=monthly',
+            groupLeaderboard: 'GET /api/scores/groups/:groupId',
+            friendsLeaderboard: 'POST /api/scores/friends',
+            stream: 'GET /api/scores/stream?top=10&player_ids=',
+          },
+          groups: {
+            get: 'GET /api/groups/:groupId',
+            set: 'PUT /api/groups/:groupId',
+            addMembers: 'POST /api/groups/:groupId/members',
+            removeMember: 'DELETE /api/groups/:groupId/members/:playerId',
+            delete: 'DELETE /api/groups/:groupId',
+          },
+          boards: {
+            list: 'GET /api/boards',
+            submit: 'POST /api/boards/:boardId/scores',
+            topPlayers: 'GET /api/boards/:boardId/top?limit=10',
+            playerStats: 'GET /api/boards/:boardId/scores/player/:playerId',
+            stats: 'GET /api/boards/:boardId/scores/stats',
+          },
+          admin: {
+            rebuild: 'POST /api/admin/rebuild',
+            rebuildStatus: 'GET /api/admin/rebuild',
+            deadLetters: 'GET /api/admin/dlq?status=pending',
+            deadLetter: 'GET /api/admin/dlq/:id',
+            replayDeadLetter: 'POST /api/admin/dlq/:id/replay',
+            replayAllDeadLetters: 'POST /api/admin/dlq/replay',
+            discardDeadLetter: 'DELETE /api/admin/dlq/:id',
+            quarantine: 'GET /api/admin/quarantine?limit=50',
+            quarantined: 'GET /api/admin/quarantine/:id',
+            approveQuarantined: 'POST /api/admin/quarantine/:id/approve',
+            rejectQuarantined: 'POST /api/admin/quarantine/:id/reject',
+            removePlayer: 'DELETE /api/admin/players/:playerId',
+            resetScore: 'DELETE /api/admin/boards/:boardId/players/:playerId',
+            overrideScore: 'PUT /api/admin/boards/:boardId/players/:playerId/score',
+            wipeBoard: 'DELETE /api/admin/boards/:boardId/scores',
+            bans: 'GET /api/admin/bans',
+            ban: 'PUT /api/admin/bans/:playerId',
+            unban: 'DELETE /api/admin/bans/:playerId',
+            audit: 'GET /api/admin/audit?action=&actor=&board_id=&player_id=&limit=50',
           },
           websocket: 'ws://localhost:' + PORT + '/leaderboard',
           health: 'GET /api/health',
@@ -108,15 +458,34 @@ class LeaderboardServer {
   private async setupKafkaConsumers(): Promise<void> {
     // Consumer 1: Process score submissions and batch save to database
     const scoreConsumer = new KafkaService(KAFKA_BROKERS, KAFKA_CLIENT_ID);
+    this.sharedConsumers.push(scoreConsumer);
     await scoreConsumer.initConsumer('score-consumer-group');
     
     await scoreConsumer.subscribeToScoreSubmissions(async (submission) => {
       console.log('[Kafka] Processing score submission:', submission);
+
+      // Redelivered or re-relayed messages are batched once
+      const dedupeId = submission.outbox_id
+        ? `outbox:${submission.outbox_id}`
+        : submission.submission_id;
+      if (
+        dedupeId !== undefined &&
+        !(await this.redisService.markSubmissionConsumed(
+          submission.board_id,
+          dedupeId,
+          IDEMPOTENCY_TTL_SECONDS
+        ))
+      ) {
+        console.log(`[Kafka] Skipping duplicate submission ${dedupeId}`);
+        return;
+      }
+
       await this.batchSavingService.addToBatch(submission);
     });
 
     // Consumer 2: Process leaderboard changes with throttling
     const leaderboardConsumer = new KafkaService(KAFKA_BROKERS, KAFKA_CLIENT_ID);
+    this.sharedConsumers.push(leaderboardConsumer);
     await leaderboardConsumer.initConsumer('leaderboard-consumer-group');
     
     await leaderboardConsumer.subscribeToLeaderboardChanges(async (message) => {
@@ -124,13 +493,32 @@ class LeaderboardServer {
       await this.leaderboardProcessingService.processLeaderboardChange(message);
     });
 
-    // Consumer 3: Broadcast leaderboard updates via WebSocket
+    // Consumer 3: Broadcast leaderboard updates via WebSocket and Server-Sent
+    // Events. Clients of every instance follow every version, so the consumer
+    // group is per instance.
     const broadcastConsumer = new KafkaService(KAFKA_BROKERS, KAFKA_CLIENT_ID);
-    await broadcastConsumer.initConsumer('broadcast-consumer-group');
+    this.instanceConsumers.push(broadcastConsumer);
+    await broadcastConsumer.initConsumer(`broadcast-consumer-group-${INSTANCE_ID}`);
     
     await broadcastConsumer.subscribeToLeaderboardUpdates(async (update) => {
-      console.log('[Kafka] Broadcasting leaderboard update to WebSocket clients');
+      console.log('[Kafka] Broadcasting leaderboard update to WebSocket and SSE clients');
       this.wsService.broadcast(update);
+      this.sseService.broadcast(update);
+    });
+
+    // Consumer 4: Push score changes to WebSocket and SSE clients on this
+    // instance subscribed to the player, and tell identified players how their
+    // rank moved and when a friend overtakes them. Every instance needs every
+    // change, so the consumer group is per instance.
+    const friendConsumer = new KafkaService(KAFKA_BROKERS, KAFKA_CLIENT_ID);
+    this.instanceConsumers.push(friendConsumer);
+    await friendConsumer.initConsumer(`friend-notification-group-${INSTANCE_ID}`);
+
+    await friendConsumer.subscribeToLeaderboardChanges(async (message) => {
+      this.wsService.notifyScoreChange(message.data);
+      this.sseService.notifyScoreChange(message.data);
+      await this.rankNotificationService.processScoreChange(message.data);
+      await this.groupLeaderboardService.processScoreChange(message.data);
     });
   }
 
@@ -142,21 +530,57 @@ class LeaderboardServer {
         REDIS_HOST,
         REDIS_PORT,
         KAFKA_BROKERS,
+        INSTANCE_ID,
+        DATABASE: DATABASE_URL ? 'postgres' : 'mock',
+        DATABASE_POOL_SIZE,
         BATCH_SIZE,
         THROTTLE_DURATION_MS,
+        LEADERBOARD_HISTORY_SIZE,
+        LEADERBOARD_TIMEZONE,
+        WINDOW_ARCHIVE_RETENTION_DAYS,
+        REBUILD_ON_START,
+        IDEMPOTENCY_TTL_SECONDS,
+        SIGNING_CLIENTS: Array.from(SIGNING_CLIENTS.keys()),
+        SIGNATURE_TOLERANCE_SECONDS,
+        AUTHENTICATION: this.authService.isEnabled() ? 'enabled' : 'disabled',
+        ANONYMOUS_ROLES,
+        CORS_ORIGINS,
+        RATE_LIMITS,
+        RANK_NOTIFICATION_TOP_N,
+        WEBSOCKET_LIMITS,
+        SSE_LIMITS,
       });
 
+      if (!this.authService.isEnabled()) {
+        console.warn(
+          '[Auth] No API_KEYS or JWT_SECRET configured; every request has admin access'
+        );
+      }
+
+      // Connect to the database and apply pending migrations
+      await this.dbService.connect();
+
       // Connect to Redis
       await this.redisService.connect();
 
       // Initialize Kafka producer
       await this.kafkaService.initProducer();
 
+      // Relay accepted submissions from the Redis outbox to Kafka
+      await this.outboxRelayService.start();
+
       // Set up Kafka consumers
       await this.setupKafkaConsumers();
 
-      // Start WebSocket heartbeat
+      // Start WebSocket and event stream heartbeats
       this.wsService.startHeartbeat();
+      this.sseService.startHeartbeat();
+
+      // Archive daily/weekly/monthly periods as they close
+      this.timeWindowService.startRollover();
+
+      // Restore leaderboards from the database; reads are served meanwhile
+      await this.rebuildOnStart();
 
       // Start HTTP server
       this.server.listen(PORT, () => {
@@ -174,15 +598,50 @@ class LeaderboardServer {
     }
   }
 
+  private async rebuildOnStart(): Promise<void> {
+    if (
+      REBUILD_ON_START === 'always' ||
+      (REBUILD_ON_START === 'auto' && (await this.rebuildService.isRedisEmpty()))
+    ) {
+      try {
+        await this.rebuildService.start();
+      } catch (error) {
+        if (!(error instanceof RebuildInProgressError)) {
+          throw error;
+        }
+        console.log('[Rebuild] Another instance is already rebuilding');
+      }
+    }
+  }
+
   private async shutdown(): Promise<void> {
     console.log('\n\nShutting down gracefully...');
 
     try {
+      // Stop consuming, then drop this instance's consumer groups: their
+      // consumers only follow new messages, so nothing is lost with them
+      await Promise.all(
+        [...this.sharedConsumers, ...this.instanceConsumers].map((consumer) =>
+          consumer.disconnect()
+        )
+      );
+      await Promise.all(
+        this.instanceConsumers.map((consumer) =>
+          consumer.deleteConsumerGroup().catch((error) => {
+            console.error('Error deleting consumer group:', error);
+          })
+        )
+      );
+
       // Force flush any remaining batched scores
       await this.batchSavingService.forceFlush();
 
-      // Close WebSocket connections
+      // Close WebSocket connections and event streams
       this.wsService.close();
+      this.sseService.close();
+
+      // Stop relaying; unpublished submissions stay in the outbox
+      await this.outboxRelayService.stop();
 
       // Disconnect Kafka
       await this.kafkaService.disconnect();
@@ -190,6 +649,9 @@ class LeaderboardServer {
       // Disconnect Redis
       await this.redisService.disconnect();
 
+      // Close database connections
+      await this.dbService.disconnect();
+
       // Close HTTP server
       this.server.close(() => {
         console.log('Server shut down successfully');
@@ -0,0 +1,165 @@
+import { BoardConfig, RuleViolation, ScoreSubmission } from '../types';
+import { RedisService } from './RedisService';
+
+/**
+ * A plausibility check run on every submission before it reaches the board
+ */
+export interface PlausibilityRule {
+  readonly name: string;
+
+  /**
+   * Returns why the submission is implausible, or null if it passes
+   */
+  check(submission: ScoreSubmission, config: BoardConfig): Promise<string | null>;
+}
+
+/**
+ * Flags scores above the board's configured max_score
+ */
+export class MaxScoreRule implements PlausibilityRule {
+  readonly name = 'max_score';
+
+  async check(submission: ScoreSubmission, config: BoardConfig): Promise<string | null> {
+    if (config.max_score !== null && submission.score > config.max_score) {
+      return `Score ${submission.score} exceeds the board maximum of ${config.max_score}`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Flags a player gaining more than maxImprovement within windowSeconds.
+ * Gains add up over the window, measured from the player's stored score
+ * when it opened (0 for a first submission), so several smaller jumps are
+ * caught too. On cumulative boards each submitted score is a gain, and on
+ * minimum boards improving means going lower; a first submission to a
+ * minimum board has no baseline and is not checked.
+ */
+export class ImprovementRule implements PlausibilityRule {
+  readonly name = 'max_improvement';
+  private redisService: RedisService;
+  private readonly maxImprovement: number;
+  private readonly windowSeconds: number;
+
+  constructor(redisService: RedisService, maxImprovement: number, windowSeconds: number) {
+    this.redisService = redisService;
+    this.maxImprovement = maxImprovement;
+    this.windowSeconds = windowSeconds;
+  }
+
+  async check(submission: ScoreSubmission, config: BoardConfig): Promise<string | null> {
+    const [current] = await this.redisService.getEntriesForPlayers(config.board_id, [
+      submission.player_id,
+    ]);
+    if (!current && config.aggregation === 'minimum') {
+      return null;
+    }
+
+    const stored = current?.score ?? 0;
+    const baseline = await this.redisService.getImprovementBaseline(
+      config.board_id,
+      submission.player_id,
+      stored,
+      this.windowSeconds
+    );
+
+    const reached =
+      config.aggregation === 'cumulative' ? stored + submission.score : submission.score;
+    const improvement = config.aggregation === 'minimum' ? baseline - reached : reached - baseline;
+
+    if (improvement > this.maxImprovement) {
+      return `Improved by ${improvement} within ${this.windowSeconds}s; at most ${this.maxImprovement} allowed`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Flags players submitting more than maxSubmissions times per windowSeconds
+ */
+export class SubmissionFrequencyRule implements PlausibilityRule {
+  readonly name = 'submission_frequency';
+  private redisService: RedisService;
+  private readonly maxSubmissions: number;
+  private readonly windowSeconds: number;
+
+  constructor(redisService: RedisService, maxSubmissions: number, windowSeconds: number) {
+    this.redisService = redisService;
+    this.maxSubmissions = maxSubmissions;
+    this.windowSeconds = windowSeconds;
+  }
+
+  async check(submission: ScoreSubmission, config: BoardConfig): Promise<string | null> {
+    const count = await this.redisService.countSubmission(
+      config.board_id,
+      submission.player_id,
+      this.windowSeconds
+    );
+
+    if (count > this.maxSubmissions) {
+      return `${count} submissions within ${this.windowSeconds}s; at most ${this.maxSubmissions} allowed`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Flags timestamps more than maxFutureSeconds ahead of the server clock or
+ * more than maxAgeSeconds in the past
+ */
+export class TimestampRule implements PlausibilityRule {
+  readonly name = 'timestamp';
+  private readonly maxFutureSeconds: number;
+  private readonly maxAgeSeconds: number;
+
+  constructor(maxFutureSeconds: number, maxAgeSeconds: number) {
+    this.maxFutureSeconds = maxFutureSeconds;
+    this.maxAgeSeconds = maxAgeSeconds;
+  }
+
+  async check(submission: ScoreSubmission): Promise<string | null> {
+    const offsetSeconds = (Date.parse(submission.timestamp) - Date.now()) / 1000;
+
+    if (offsetSeconds > this.maxFutureSeconds) {
+      return `Timestamp is ${Math.round(offsetSeconds)}s in the future`;
+    }
+    if (-offsetSeconds > this.maxAgeSeconds) {
+      return `Timestamp is ${Math.round(-offsetSeconds)}s in the past`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Runs the registered plausibility rules against submissions
+ */
+export class AntiCheatService {
+  private rules: PlausibilityRule[];
+
+  constructor(rules: PlausibilityRule[] = []) {
+    this.rules = rules;
+  }
+
+  /**
+   * Register an additional rule
+   */
+  addRule(rule: PlausibilityRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * Run every rule and return the violations; empty when the submission
+   * looks plausible. All rules run, so stateful ones (e.g. frequency) see
+   * every submission.
+   */
+  async evaluate(submission: ScoreSubmission, config: BoardConfig): Promise<RuleViolation[]> {
+    const results = await Promise.all(
+      this.rules.map(async (rule) => ({
+        rule: rule.name,
+        reason: await rule.check(submission, config),
+      }))
+    );
+
+    return results.flatMap(({ rule, reason }) => (reason !== null ? [{ rule, reason }] : []));
+  }
+}
@@ -0,0 +1,89 @@
+import { AuditEntry, AuditQuery, ModerationAction } from '../types';
+import { RedisService } from './RedisService';
+
+/**
+ * Records moderation actions in a Redis stream, newest entries last, and
+ * answers filtered queries over it
+ */
+export class AuditLogService {
+  private redisService: RedisService;
+  private readonly maxEntries: number;
+  // Entries read per round trip while filtering, and at most per query
+  private readonly SCAN_BATCH_SIZE = 200;
+  private readonly MAX_SCANNED = 10000;
+
+  constructor(redisService: RedisService, maxEntries: number = 100000) {
+    this.redisService = redisService;
+    this.maxEntries = maxEntries;
+  }
+
+  async record(
+    action: ModerationAction,
+    actor: string,
+    target: { board_id?: string; player_id?: string },
+    reason: string | null,
+    details: Record<string, unknown> = {}
+  ): Promise<AuditEntry> {
+    const entry: Omit<AuditEntry, 'id'> = {
+      action,
+      actor,
+      board_id: target.board_id ?? null,
+      player_id: target.player_id ?? null,
+      reason,
+      details,
+      at: new Date().toISOString(),
+    };
+
+    const id = await this.redisService.appendAuditEntry(entry, this.maxEntries);
+    console.log(
+      `[Audit] ${actor} ${action}`,
+      { board_id: entry.board_id, player_id: entry.player_id },
+      reason ?? ''
+    );
+
+    return { id, ...entry };
+  }
+
+  /**
+   * Get matching entries, newest first. next_cursor is set when older
+   * entries may match; pass it as before for the next page. A query stops
+   * after MAX_SCANNED entries, so sparse filters may return a short page
+   * with a cursor.
+   */
+  async query(query: AuditQuery): Promise<{ entries: AuditEntry[]; next_cursor: string | null }> {
+    const entries: AuditEntry[] = [];
+    let before = query.before;
+    let scanned = 0;
+
+    while (scanned < this.MAX_SCANNED) {
+      const batch = await this.redisService.getAuditEntries(before, this.SCAN_BATCH_SIZE);
+
+      for (const entry of batch) {
+        before = entry.id;
+        scanned++;
+        if (this.matches(entry, query)) {
+          entries.push(entry);
+          if (entries.length === query.limit) {
+            return { entries, next_cursor: entry.id };
+          }
+        }
+      }
+
+      // Reached the oldest entry
+      if (batch.length < this.SCAN_BATCH_SIZE) {
+        return { entries, next_cursor: null };
+      }
+    }
+
+    return { entries, next_cursor: before ?? null };
+  }
+
+  private matches(entry: AuditEntry, query: AuditQuery): boolean {
+    return (
+      (query.action === undefined || entry.action === query.action) &&
+      (query.actor === undefined || entry.actor === query.actor) &&
+      (query.board_id === undefined || entry.board_id === query.board_id) &&
+      (query.player_id === undefined || entry.player_id === query.player_id)
+    );
+  }
+}
@@ -0,0 +1,191 @@
+import { Principal, Role, ROLES } from '../types';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import Joi from 'joi';
+
+/**
+ * The request carries credentials that are malformed, unknown or expired
+ */
+export class InvalidCredentialsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+/**
+ * Settings for verifying HS256 bearer tokens. Roles are read from the
+ * token's roles claim.
+ */
+export interface JwtOptions {
+  secret: string;
+  issuer?: string;
+  audience?: string;
+}
+
+// Shape of API_KEYS, keyed by a name for the key's holder
+const apiKeysSchema = Joi.object().pattern(
+  Joi.string().pattern(/^[A-Za-z0-9_.-]+$/).max(64),
+  Joi.object({
+    key: Joi.string().min(32).required(),
+    roles: Joi.array()
+      .items(Joi.string().valid(...ROLES))
+      .min(1)
+      .required(),
+  })
+);
+
+// Seconds of clock skew tolerated on exp and nbf
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+/**
+ * Parse the API_KEYS configuration, e.g.
+ * {"dashboard": {"key": "<key>", "roles": ["reader"]}}
+ */
+export function parseApiKeys(json: string | undefined): Map<string, Principal> {
+  const keys = new Map<string, Principal>();
+  if (!json) {
+    return keys;
+  }
+
+  const { error, value } = apiKeysSchema.validate(JSON.parse(json));
+  if (error) {
+    throw new Error(`Invalid API_KEYS: ${error.message}`);
+  }
+
+  for (const [name, { key, roles }] of Object.entries(
+    value as Record<string, { key: string; roles: Role[] }>
+  )) {
+    keys.set(hashKey(key), { id: `key:${name}`, roles, authenticated: true });
+  }
+  return keys;
+}
+
+/**
+ * Whether a principal may act in a role
+ */
+export function hasRole(principal: Principal, role: Role): boolean {
+  return principal.roles.includes(role) || principal.roles.includes('admin');
+}
+
+/**
+ * Keys are looked up by digest, so lookups do not leak timing about the
+ * stored keys
+ */
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Resolves request credentials (an API key or a JWT bearer token) to a
+ * principal and its roles.
+ *
+ * Authentication is enabled once API keys or a JWT secret are configured.
+ * Until then every caller is treated as an admin so that existing
+ * deployments keep working.
+ */
+export class AuthService {
+  private apiKeys: Map<string, Principal>;
+  private jwt: JwtOptions | null;
+  private readonly anonymousRoles: Role[];
+
+  constructor(
+    apiKeys: Map<string, Principal>,
+    jwt: JwtOptions | null,
+    anonymousRoles: Role[] = []
+  ) {
+    this.apiKeys = apiKeys;
+    this.jwt = jwt;
+    this.anonymousRoles = anonymousRoles;
+  }
+
+  isEnabled(): boolean {
+    return this.apiKeys.size > 0 || this.jwt !== null;
+  }
+
+  /**
+   * Get the principal for a request's credentials. A request without any
+   * gets the anonymous roles.
+   */
+  authenticate(credentials: { apiKey?: string; bearerToken?: string }): Principal {
+    if (!this.isEnabled()) {
+      return { id: 'anonymous', roles: ['admin'], authenticated: false };
+    }
+
+    if (credentials.apiKey !== undefined) {
+      const principal = this.apiKeys.get(hashKey(credentials.apiKey));
+      if (!principal) {
+        throw new InvalidCredentialsError('Unknown API key');
+      }
+      return principal;
+    }
+
+    if (credentials.bearerToken !== undefined) {
+      return this.verifyToken(credentials.bearerToken);
+    }
+
+    return { id: 'anonymous', roles: this.anonymousRoles, authenticated: false };
+  }
+
+  /**
+   * Verify an HS256 JWT and map its claims to a principal
+   */
+  private verifyToken(token: string): Principal {
+    if (!this.jwt) {
+      throw new InvalidCredentialsError('Bearer tokens are not accepted');
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new InvalidCredentialsError('Malformed token');
+    }
+    const [encodedHeader, encodedPayload, signature] = parts;
+
+    let header: { alg?: unknown };
+    let payload: Record<string, unknown>;
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+    } catch {
+      throw new InvalidCredentialsError('Malformed token');
+    }
+
+    // Only the configured algorithm is accepted, never the one the token names
+    if (header.alg !== 'HS256') {
+      throw new InvalidCredentialsError('Token must be signed with HS256');
+    }
+
+    const expected = createHmac('sha256', this.jwt.secret)
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new InvalidCredentialsError('Invalid token signature');
+    }
+
+    const now = Date.now() / 1000;
+    if (typeof payload.exp === 'number' && now > payload.exp + CLOCK_TOLERANCE_SECONDS) {
+      throw new InvalidCredentialsError('Token has expired');
+    }
+    if (typeof payload.nbf === 'number' && now < payload.nbf - CLOCK_TOLERANCE_SECONDS) {
+      throw new InvalidCredentialsError('Token is not yet valid');
+    }
+    if (this.jwt.issuer !== undefined && payload.iss !== this.jwt.issuer) {
+      throw new InvalidCredentialsError('Unexpected token issuer');
+    }
+    if (this.jwt.audience !== undefined) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(this.jwt.audience)) {
+        throw new InvalidCredentialsError('Unexpected token audience');
+      }
+    }
+    if (typeof payload.sub !== 'string') {
+      throw new InvalidCredentialsError('Token has no subject');
+    }
+
+    const roles = Array.isArray(payload.roles)
+      ? ROLES.filter((role) => (payload.roles as unknown[]).includes(role))
+      : [];
+
+    return { id: `jwt:${payload.sub}`, roles, authenticated: true };
+  }
+}
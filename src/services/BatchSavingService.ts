@@ -46,16 +46,44 @@ export class BatchSavingService {
 
     console.log(`Flushing batch of ${batchToSave.length} records to database`);
 
+    try {
+      await this.saveWithRetry(batchToSave);
+    } catch (error) {
+      // All retries failed - save to a dead letter queue or file
+      console.error('All retry attempts failed. Saving to dead letter queue...');
+      await this.saveToDeadLetterQueue(
+        batchToSave,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    this.saveInProgress = false;
+  }
+
+  /**
+   * Save a batch previously moved to the dead letter queue. Retries like a
+   * regular flush, but throws instead of queueing the batch again. The
+   * batch is saved under batchId, so replaying it again saves nothing.
+   */
+  async replay(batch: ScoreSubmission[], batchId: string): Promise<void> {
+    console.log(`Replaying batch of ${batch.length} records to database`);
+    await this.saveWithRetry(batch, batchId);
+  }
+
+  /**
+   * Save a batch with exponential backoff, throwing the last error once all
+   * attempts failed
+   */
+  private async saveWithRetry(batch: ScoreSubmission[], batchId?: string): Promise<void> {
     let attempt = 0;
-    let success = false;
 
-    while (attempt < this.maxRetries && !success) {
+    while (true) {
       try {
-        await this.dbService.saveBatch(batchToSave);
+        await this.dbService.saveBatch(batch, batchId);
         console.log(
-          `Successfully saved batch of ${batchToSave.length} records (attempt ${attempt + 1})`
+          `Successfully saved batch of ${batch.length} records (attempt ${attempt + 1})`
         );
-        success = true;
+        return;
       } catch (error) {
         attempt++;
         console.error(
@@ -63,33 +91,27 @@ export class BatchSavingService {
           error
         );
 
-        if (attempt < this.maxRetries) {
-          // Exponential backoff
-          const delay = this.retryDelay * Math.pow(2, attempt - 1);
-          console.log(`Retrying in ${delay}ms...`);
-          await this.sleep(delay);
-        } else {
-          // All retries failed - save to a dead letter queue or file
-          console.error(
-            'All retry attempts failed. Saving to dead letter queue...'
-          );
-          await this.saveToDeadLetterQueue(batchToSave);
+        if (attempt >= this.maxRetries) {
+          throw error;
         }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        console.log(`Retrying in ${delay}ms...`);
+        await this.sleep(delay);
       }
     }
-
-    this.saveInProgress = false;
   }
 
   /**
    * Save failed batch to a dead letter queue for manual recovery
    */
   private async saveToDeadLetterQueue(
-    batch: ScoreSubmission[]
+    batch: ScoreSubmission[],
+    errorMessage: string
   ): Promise<void> {
     try {
-      // In a real system, this would save to a separate queue or persistent storage
-      await this.dbService.saveToDeadLetterQueue(batch);
+      await this.dbService.saveToDeadLetterQueue(batch, errorMessage);
       console.log('Batch saved to dead letter queue for manual recovery');
     } catch (error) {
       console.error('Failed to save to dead letter queue:', error);
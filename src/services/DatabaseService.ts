@@ -1,199 +1,128 @@
-import { ScoreSubmission, User } from '../types';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  AggregationPolicy,
+  ScoreAdjustment,
+  ScoreHistoryPage,
+  ScoreHistoryQuery,
+  ScoreSubmission,
+  User,
+} from '../types';
 
 /**
- * Mock Database Service
- * In production, this would use PostgreSQL with proper connection pooling
+ * Persistence interface for scores and users.
+ * PostgresDatabaseService is the production implementation;
+ * MockDatabaseService logs queries instead and needs no database, for local
+ * development.
  */
-export class DatabaseService {
-  private deadLetterQueuePath: string;
-
-  constructor() {
-    this.deadLetterQueuePath = path.join(__dirname, '../../data/dead_letter_queue.json');
-    this.ensureDataDirectory();
-  }
+export interface DatabaseService {
+  /**
+   * Open connections and bring the schema up to date
+   */
+  connect(): Promise<void>;
 
   /**
-   * Ensure data directory exists
+   * Close all connections
    */
-  private ensureDataDirectory(): void {
-    const dataDir = path.join(__dirname, '../../data');
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
-  }
+  disconnect(): Promise<void>;
 
   /**
-   * Mock batch save to PostgreSQL
-   * In production, this would use a transaction to ensure atomicity
+   * Persist a batch of submissions atomically: every submission goes into
+   * the score history and each player's stored score is updated according
+   * to the board's aggregation policy. A batch given an id is saved only
+   * once; saving it again does nothing.
    */
-  async saveBatch(submissions: ScoreSubmission[]): Promise<void> {
-    // Simulate database operation
-    console.log(`[DB] Saving batch of ${submissions.length} score submissions...`);
-    
-    // Simulate network delay
-    await this.simulateDelay(50, 150);
-
-    // Mock database structure
-    const query = `
-      INSERT INTO scores (player_id, score, timestamp, created_at)
-      VALUES ${submissions.map(() => '(?, ?, ?, NOW())').join(', ')}
-      ON CONFLICT (player_id, timestamp)
-      DO UPDATE SET score = EXCLUDED.score
-    `;
-
-    console.log(`[DB] Query structure: ${query}`);
-    console.log(`[DB] Batch saved successfully. Records: ${submissions.length}`);
-
-    // In production, you would execute:
-    // await pool.query(query, submissions.flatMap(s => [s.player_id, s.score, s.timestamp]));
-  }
+  saveBatch(submissions: ScoreSubmission[], batchId?: string): Promise<void>;
 
   /**
-   * Save failed batch to dead letter queue
+   * Save a batch that could not be persisted for later recovery
    */
-  async saveToDeadLetterQueue(submissions: ScoreSubmission[]): Promise<void> {
-    const timestamp = new Date().toISOString();
-    const entry = {
-      timestamp,
-      count: submissions.length,
-      submissions,
-    };
-
-    let queue = [];
-    
-    // Read existing queue
-    if (fs.existsSync(this.deadLetterQueuePath)) {
-      const content = fs.readFileSync(this.deadLetterQueuePath, 'utf-8');
-      queue = JSON.parse(content);
-    }
-
-    // Append new entry
-    queue.push(entry);
-
-    // Write back to file
-    fs.writeFileSync(
-      this.deadLetterQueuePath,
-      JSON.stringify(queue, null, 2),
-      'utf-8'
-    );
+  saveToDeadLetterQueue(submissions: ScoreSubmission[], errorMessage?: string): Promise<void>;
 
-    console.log(`[DB] Saved ${submissions.length} records to dead letter queue`);
-  }
+  /**
+   * Ids of every board with persisted submissions
+   */
+  getBoardIds(): Promise<string[]>;
 
   /**
-   * Mock user fetch
-   * In production, this would query the users table
+   * Iterate over the submissions persisted so far, oldest first, in chunks.
+   * Submissions saved after iteration starts are not included.
    */
-  async getUser(userId: string): Promise<User | null> {
-    // Simulate database query
-    await this.simulateDelay(10, 30);
-
-    // Mock user data
-    return {
-      id: userId,
-      username: `user_${userId.substring(0, 8)}`,
-    };
-  }
+  streamSubmissions(chunkSize: number): AsyncGenerator<ScoreSubmission[]>;
 
   /**
-   * Mock batch user fetch
+   * Record a moderation change to stored scores
    */
-  async getUsers(userIds: string[]): Promise<Map<string, User>> {
-    await this.simulateDelay(20, 50);
-
-    const users = new Map<string, User>();
-    for (const userId of userIds) {
-      users.set(userId, {
-        id: userId,
-        username: `user_${userId.substring(0, 8)}`,
-      });
-    }
-
-    return users;
-  }
+  saveAdjustment(adjustment: ScoreAdjustment): Promise<void>;
 
   /**
-   * Get historical scores for a player
+   * Get every recorded moderation change, oldest first
    */
-  async getPlayerHistory(
-    playerId: string,
-    limit: number = 10
-  ): Promise<ScoreSubmission[]> {
-    await this.simulateDelay(30, 60);
-
-    // Mock query:
-    // SELECT * FROM scores WHERE player_id = ? ORDER BY timestamp DESC LIMIT ?
-    
-    console.log(`[DB] Fetching history for player ${playerId}, limit: ${limit}`);
-    return [];
-  }
+  getAdjustments(): Promise<ScoreAdjustment[]>;
+
+  getUser(userId: string): Promise<User | null>;
+
+  getUsers(userIds: string[]): Promise<Map<string, User>>;
 
   /**
-   * Get statistics
+   * Get a page of a player's submissions to a board, newest first.
+   * Throws InvalidCursorError for a malformed cursor.
    */
-  async getStats(): Promise<{
+  getPlayerHistory(
+    boardId: string,
+    playerId: string,
+    query: ScoreHistoryQuery
+  ): Promise<ScoreHistoryPage>;
+
+  getStats(): Promise<{
     totalScores: number;
     totalPlayers: number;
     avgScore: number;
-  }> {
-    await this.simulateDelay(50, 100);
-
-    // Mock aggregation query
-    console.log('[DB] Fetching statistics...');
-    
-    return {
-      totalScores: 0,
-      totalPlayers: 0,
-      avgScore: 0,
-    };
-  }
+  }>;
+}
 
-  /**
-   * Simulate database delay
-   */
-  private simulateDelay(minMs: number, maxMs: number): Promise<void> {
-    const delay = Math.random() * (maxMs - minMs) + minMs;
-    return new Promise((resolve) => setTimeout(resolve, delay));
+/**
+ * Combine a stored score with a new one according to a policy
+ */
+export function combineScores(
+  aggregation: AggregationPolicy,
+  stored: number,
+  incoming: number
+): number {
+  switch (aggregation) {
+    case 'best':
+      return Math.max(stored, incoming);
+    case 'minimum':
+      return Math.min(stored, incoming);
+    case 'cumulative':
+      return stored + incoming;
+    case 'latest':
+      return incoming;
   }
+}
 
-  /**
-   * Mock database schema for reference
-   */
-  getDatabaseSchema(): string {
-    return `
--- Scores table
-CREATE TABLE IF NOT EXISTS scores (
-  id SERIAL PRIMARY KEY,
-  player_id VARCHAR(255) NOT NULL,
-  score INTEGER NOT NULL,
-  timestamp TIMESTAMP NOT NULL,
-  created_at TIMESTAMP DEFAULT NOW(),
-  UNIQUE(player_id, timestamp)
-);
-
-CREATE INDEX idx_scores_player_id ON scores(player_id);
-CREATE INDEX idx_scores_timestamp ON scores(timestamp);
-CREATE INDEX idx_scores_score ON scores(score DESC);
-
--- Users table
-CREATE TABLE IF NOT EXISTS users (
-  id VARCHAR(255) PRIMARY KEY,
-  username VARCHAR(255) NOT NULL UNIQUE,
-  email VARCHAR(255),
-  created_at TIMESTAMP DEFAULT NOW()
-);
-
--- Dead letter queue table
-CREATE TABLE IF NOT EXISTS dead_letter_queue (
-  id SERIAL PRIMARY KEY,
-  payload JSONB NOT NULL,
-  error_message TEXT,
-  retry_count INTEGER DEFAULT 0,
-  created_at TIMESTAMP DEFAULT NOW()
-);
-    `;
+/**
+ * Reduce a batch to one submission per board and player by applying each
+ * board's aggregation policy, in submission order. An upsert statement
+ * cannot touch the same row twice, so batches are reduced before writing.
+ */
+export function aggregateSubmissions(submissions: ScoreSubmission[]): ScoreSubmission[] {
+  const reduced = new Map<string, ScoreSubmission>();
+
+  for (const submission of submissions) {
+    const key = `${submission.board_id}:${submission.player_id}`;
+    const current = reduced.get(key);
+
+    reduced.set(
+      key,
+      current
+        ? {
+            ...submission,
+            score: combineScores(submission.aggregation, current.score, submission.score),
+            timestamp:
+              current.timestamp > submission.timestamp ? current.timestamp : submission.timestamp,
+          }
+        : submission
+    );
   }
-}
 
+  return Array.from(reduced.values());
+}
@@ -0,0 +1,130 @@
+import { DeadLetterEntry, DeadLetterReplayResult, DeadLetterStatus } from '../types';
+import { FileDeadLetterQueue } from './FileDeadLetterQueue';
+import { BatchSavingService } from './BatchSavingService';
+
+export class DeadLetterNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Dead letter entry ${id} not found`);
+    this.name = 'DeadLetterNotFoundError';
+  }
+}
+
+export class DeadLetterNotPendingError extends Error {
+  constructor(id: string, state: string) {
+    super(`Dead letter entry ${id} is ${state}`);
+    this.name = 'DeadLetterNotPendingError';
+  }
+}
+
+/**
+ * Inspection and recovery of batches in the dead letter queue. Replays go
+ * through BatchSavingService, so they get the same retries as live batches.
+ */
+export class DeadLetterService {
+  private deadLetterQueue: FileDeadLetterQueue;
+  private batchSavingService: BatchSavingService;
+
+  constructor(deadLetterQueue: FileDeadLetterQueue, batchSavingService: BatchSavingService) {
+    this.deadLetterQueue = deadLetterQueue;
+    this.batchSavingService = batchSavingService;
+  }
+
+  /**
+   * List entries, oldest first, optionally filtered by status
+   */
+  async list(status?: DeadLetterStatus): Promise<DeadLetterEntry[]> {
+    const entries = await this.deadLetterQueue.list();
+    return status ? entries.filter((entry) => entry.status === status) : entries;
+  }
+
+  async get(id: string): Promise<DeadLetterEntry> {
+    const entry = await this.deadLetterQueue.get(id);
+    if (!entry) {
+      throw new DeadLetterNotFoundError(id);
+    }
+    return entry;
+  }
+
+  /**
+   * Save a pending entry's batch to the database. A failed replay keeps the
+   * entry pending and increments its retry count. The batch is saved under
+   * the entry's id, so an entry replayed again (e.g. because marking it
+   * replayed failed) is not counted twice.
+   */
+  async replay(id: string): Promise<DeadLetterReplayResult> {
+    return this.whileClaimed(id, async (entry) => {
+      try {
+        await this.batchSavingService.replay(entry.submissions, id);
+        await this.deadLetterQueue.markReplayed(id);
+        console.log(`[DLQ] Replayed entry ${id} (${entry.count} records)`);
+        return { id, success: true, error_message: null };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await this.deadLetterQueue.recordRetryFailure(id, errorMessage);
+        console.error(`[DLQ] Replay of entry ${id} failed:`, error);
+        return { id, success: false, error_message: errorMessage };
+      }
+    });
+  }
+
+  /**
+   * Replay every pending entry, oldest first
+   */
+  async replayAll(): Promise<DeadLetterReplayResult[]> {
+    const results: DeadLetterReplayResult[] = [];
+
+    for (const entry of await this.list('pending')) {
+      try {
+        results.push(await this.replay(entry.id));
+      } catch (error) {
+        // Replayed or discarded concurrently
+        if (!(error instanceof DeadLetterNotPendingError)) {
+          throw error;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Give up on a pending entry without saving it
+   */
+  async discard(id: string): Promise<DeadLetterEntry> {
+    return this.whileClaimed(id, async (entry) => {
+      await this.deadLetterQueue.markDiscarded(id);
+      console.log(`[DLQ] Discarded entry ${id} (${entry.count} records)`);
+      return { ...entry, status: 'discarded' };
+    });
+  }
+
+  /**
+   * Run work on a pending entry while holding its claim, so no other
+   * process (server instance or CLI) replays or discards it meanwhile
+   */
+  private async whileClaimed<T>(
+    id: string,
+    work: (entry: DeadLetterEntry) => Promise<T>
+  ): Promise<T> {
+    const entry = await this.get(id);
+    this.assertPending(entry);
+
+    if (!(await this.deadLetterQueue.claim(id))) {
+      throw new DeadLetterNotPendingError(id, 'being replayed or discarded');
+    }
+    try {
+      // Read again: another process may have finished with it meanwhile
+      const claimed = await this.get(id);
+      this.assertPending(claimed);
+      return await work(claimed);
+    } finally {
+      await this.deadLetterQueue.release(id);
+    }
+  }
+
+  private assertPending(entry: DeadLetterEntry): void {
+    if (entry.status !== 'pending') {
+      throw new DeadLetterNotPendingError(entry.id, `already ${entry.status}`);
+    }
+  }
+}
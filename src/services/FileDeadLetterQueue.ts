@@ -0,0 +1,293 @@
+import {
+  DEFAULT_AGGREGATION_POLICY,
+  DEFAULT_BOARD_ID,
+  DeadLetterEntry,
+  ScoreSubmission,
+} from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs';
+import * as path from 'path';
+
+type DeadLetterEvent =
+  | {
+      type: 'added';
+      id: string;
+      at: string;
+      error_message: string | null;
+      submissions: ScoreSubmission[];
+    }
+  | { type: 'retry_failed'; id: string; at: string; error_message: string }
+  | { type: 'replayed'; id: string; at: string }
+  | { type: 'discarded'; id: string; at: string };
+
+/**
+ * Dead letter queue kept in a file on local disk, so failed batches survive
+ * even when the database itself is unreachable.
+ *
+ * The file is an append-only log with one JSON event per line; entries are
+ * rebuilt by folding the events. Each event is written with a single
+ * O_APPEND write, so concurrent writers (including other processes such as
+ * the CLI) never overwrite each other. Entries being replayed or discarded
+ * are claimed with lock files next to it.
+ */
+export class FileDeadLetterQueue {
+  private filePath: string;
+  // Lock files of the claims this process holds, across queue instances
+  private static claims = new Set<string>();
+
+  constructor(filePath: string = path.join(__dirname, '../../data/dead_letter_queue.jsonl')) {
+    this.filePath = filePath;
+    this.ensureDirectory();
+    this.migrateLegacyFile();
+  }
+
+  /**
+   * Ensure the queue's directory exists
+   */
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Import batches from the former dead_letter_queue.json array file, which
+   * is then renamed so it is imported only once
+   */
+  private migrateLegacyFile(): void {
+    const legacyPath = path.join(path.dirname(this.filePath), 'dead_letter_queue.json');
+    if (!fs.existsSync(legacyPath)) {
+      return;
+    }
+
+    const legacy: Array<{
+      timestamp: string;
+      error_message?: string | null;
+      submissions: Array<Partial<ScoreSubmission>>;
+    }> = JSON.parse(fs.readFileSync(legacyPath, 'utf-8'));
+
+    const lines = legacy.map((entry) =>
+      JSON.stringify({
+        type: 'added',
+        id: uuidv4(),
+        at: entry.timestamp,
+        error_message: entry.error_message ?? null,
+        // Batches from before named boards carry neither field
+        submissions: entry.submissions.map((submission) => ({
+          board_id: DEFAULT_BOARD_ID,
+          aggregation: DEFAULT_AGGREGATION_POLICY,
+          ...submission,
+        })),
+      })
+    );
+
+    if (lines.length > 0) {
+      fs.appendFileSync(this.filePath, lines.join('\n') + '\n', 'utf-8');
+    }
+    fs.renameSync(legacyPath, `${legacyPath}.migrated`);
+    console.log(`[DLQ] Imported ${lines.length} entries from ${legacyPath}`);
+  }
+
+  /**
+   * Append a failed batch to the queue. Returns the new entry's id.
+   */
+  async append(submissions: ScoreSubmission[], errorMessage?: string): Promise<string> {
+    const id = uuidv4();
+
+    await this.write({
+      type: 'added',
+      id,
+      at: new Date().toISOString(),
+      error_message: errorMessage ?? null,
+      submissions,
+    });
+
+    return id;
+  }
+
+  /**
+   * Record a failed replay attempt
+   */
+  async recordRetryFailure(id: string, errorMessage: string): Promise<void> {
+    await this.write({
+      type: 'retry_failed',
+      id,
+      at: new Date().toISOString(),
+      error_message: errorMessage,
+    });
+  }
+
+  async markReplayed(id: string): Promise<void> {
+    await this.write({ type: 'replayed', id, at: new Date().toISOString() });
+  }
+
+  async markDiscarded(id: string): Promise<void> {
+    await this.write({ type: 'discarded', id, at: new Date().toISOString() });
+  }
+
+  /**
+   * Get all entries, oldest first
+   */
+  async list(): Promise<DeadLetterEntry[]> {
+    const entries = new Map<string, DeadLetterEntry>();
+
+    for (const event of await this.readEvents()) {
+      if (event.type === 'added') {
+        entries.set(event.id, {
+          id: event.id,
+          status: 'pending',
+          error_message: event.error_message,
+          retry_count: 0,
+          created_at: event.at,
+          updated_at: event.at,
+          count: event.submissions.length,
+          submissions: event.submissions,
+        });
+        continue;
+      }
+
+      const entry = entries.get(event.id);
+      if (!entry) {
+        continue;
+      }
+
+      entry.updated_at = event.at;
+      if (event.type === 'retry_failed') {
+        entry.retry_count++;
+        entry.error_message = event.error_message;
+      } else {
+        entry.status = event.type;
+      }
+    }
+
+    return Array.from(entries.values());
+  }
+
+  async get(id: string): Promise<DeadLetterEntry | null> {
+    const entries = await this.list();
+    return entries.find((entry) => entry.id === id) ?? null;
+  }
+
+  /**
+   * Claim an entry for exclusive handling by this process, among every
+   * process sharing the queue file. The claim is a lock file holding the
+   * claimant's pid, so a claim left behind by a process that died is taken
+   * over. Returns false if a live process holds the entry.
+   */
+  async claim(id: string): Promise<boolean> {
+    const lockPath = this.lockPath(id);
+
+    // Linked into place once written, so a lock file always holds a pid
+    const ownPath = `${lockPath}.${process.pid}`;
+    await fs.promises.writeFile(ownPath, process.pid.toString(), 'utf-8');
+    try {
+      await fs.promises.link(ownPath, lockPath);
+      FileDeadLetterQueue.claims.add(lockPath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    } finally {
+      await fs.promises.unlink(ownPath);
+    }
+
+    // A claim under this process's pid that it did not make was left by an
+    // earlier process with the same pid, as after a container restart
+    const holder = await this.readLock(lockPath);
+    if (
+      holder !== null &&
+      (holder === process.pid
+        ? FileDeadLetterQueue.claims.has(lockPath)
+        : this.isAlive(holder))
+    ) {
+      return false;
+    }
+
+    // Moved aside first: if another process took the claim over meanwhile,
+    // its lock is put back
+    const stalePath = `${lockPath}.stale.${process.pid}`;
+    try {
+      await fs.promises.rename(lockPath, stalePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.claim(id);
+      }
+      throw error;
+    }
+    if ((await this.readLock(stalePath)) !== holder) {
+      await fs.promises.link(stalePath, lockPath).catch(() => undefined);
+      await fs.promises.unlink(stalePath);
+      return false;
+    }
+    await fs.promises.unlink(stalePath);
+
+    console.warn(`[DLQ] Taking over the claim on entry ${id} left by process ${holder}`);
+    return this.claim(id);
+  }
+
+  async release(id: string): Promise<void> {
+    FileDeadLetterQueue.claims.delete(this.lockPath(id));
+    await fs.promises.unlink(this.lockPath(id));
+  }
+
+  private lockPath(id: string): string {
+    return `${this.filePath}.${id}.lock`;
+  }
+
+  /**
+   * Pid in a lock file, or null if it is unreadable
+   */
+  private async readLock(lockPath: string): Promise<number | null> {
+    try {
+      const pid = parseInt(await fs.promises.readFile(lockPath, 'utf-8'), 10);
+      return Number.isNaN(pid) ? null : pid;
+    } catch {
+      return null;
+    }
+  }
+
+  private isAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  private async write(event: DeadLetterEvent): Promise<void> {
+    await fs.promises.appendFile(this.filePath, JSON.stringify(event) + '\n', {
+      encoding: 'utf-8',
+      flag: 'a',
+    });
+  }
+
+  private async readEvents(): Promise<DeadLetterEvent[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const events: DeadLetterEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash mid-write
+        console.warn('[DLQ] Skipping malformed line in dead letter queue');
+      }
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,96 @@
+import { RedisService } from './RedisService';
+import { LeaderboardProcessingService } from './LeaderboardProcessingService';
+import { WebSocketService } from './WebSocketService';
+import { GroupLeaderboardEntry, LeaderboardChange, WindowPeriod } from '../types';
+
+/**
+ * Friends / group leaderboards: ranks a set of players against each other
+ * using their scores on a board, and tells connected players when a friend
+ * overtakes them.
+ */
+export class GroupLeaderboardService {
+  private redisService: RedisService;
+  private leaderboardProcessingService: LeaderboardProcessingService;
+  private wsService: WebSocketService;
+
+  constructor(
+    redisService: RedisService,
+    leaderboardProcessingService: LeaderboardProcessingService,
+    wsService: WebSocketService
+  ) {
+    this.redisService = redisService;
+    this.leaderboardProcessingService = leaderboardProcessingService;
+    this.wsService = wsService;
+  }
+
+  /**
+   * Rank the given players against each other. Players without a score on
+   * the board are left out.
+   */
+  async getRankedView(
+    boardId: string,
+    playerIds: string[],
+    period?: WindowPeriod
+  ): Promise<GroupLeaderboardEntry[]> {
+    const entries = await this.redisService.getEntriesForPlayers(
+      boardId,
+      Array.from(new Set(playerIds)),
+      period
+    );
+
+    const ranked = entries.map((entry, index) => ({
+      ...entry,
+      rank: index + 1,
+      global_rank: entry.rank,
+    }));
+
+    return await this.leaderboardProcessingService.enhanceLeaderboardWithUserDetails(ranked);
+  }
+
+  /**
+   * Notify connected friends of a player whose stored score changed if the
+   * player moved past them. Only friends connected to this instance are
+   * looked at, so each instance handles its own connections.
+   */
+  async processScoreChange(change: LeaderboardChange): Promise<void> {
+    // A lowered score passes no one
+    if (change.previous_score !== null && change.score < change.previous_score) {
+      return;
+    }
+
+    const groups = await this.redisService.getPlayerGroups(change.player_id);
+    if (groups.length === 0) {
+      return;
+    }
+
+    const memberLists = await Promise.all(
+      groups.map((groupId) => this.redisService.getGroupMembers(groupId))
+    );
+
+    const connectedFriends = Array.from(new Set(memberLists.flat())).filter(
+      (playerId) => playerId !== change.player_id && this.wsService.isPlayerConnected(playerId)
+    );
+
+    if (connectedFriends.length === 0) {
+      return;
+    }
+
+    // Friends placed between the player's old and new position, the same
+    // players rank notifications treat as passed
+    const passedFriends = await this.redisService.getPassedEntries(change, connectedFriends);
+
+    for (const friend of passedFriends) {
+      this.wsService.sendToPlayer(friend.player_id, {
+        type: 'friend_overtook_you',
+        data: {
+          board_id: change.board_id,
+          friend_id: change.player_id,
+          friend_score: change.score,
+          your_score: friend.score,
+          your_rank: friend.rank,
+          timestamp: change.timestamp,
+        },
+      });
+    }
+  }
+}
@@ -1,10 +1,11 @@
 import { Kafka, Producer, Consumer, EachMessagePayload } from 'kafkajs';
-import { KafkaMessage } from '../types';
+import { KafkaMessage, LeaderboardChange, ScoreSubmission } from '../types';
 
 export class KafkaService {
   private kafka: Kafka;
   private producer: Producer | null = null;
   private consumer: Consumer | null = null;
+  private groupId: string | null = null;
   private readonly SCORE_TOPIC = 'score_submissions';
   private readonly LEADERBOARD_CHANGE_TOPIC = 'leaderboard_changes';
   private readonly LEADERBOARD_TOPIC = 'leaderboard_updates';
@@ -29,6 +30,7 @@ export class KafkaService {
    * Initialize the consumer
    */
   async initConsumer(groupId: string): Promise<void> {
+    this.groupId = groupId;
     this.consumer = this.kafka.consumer({ groupId });
     await this.consumer.connect();
     console.log('Kafka consumer connected successfully');
@@ -37,7 +39,7 @@ export class KafkaService {
   /**
    * Publish a score submission to Kafka
    */
-  async publishScoreSubmission(data: any): Promise<void> {
+  async publishScoreSubmission(data: ScoreSubmission): Promise<void> {
     if (!this.producer) {
       throw new Error('Producer not initialized');
     }
@@ -62,7 +64,7 @@ export class KafkaService {
   /**
    * Publish a leaderboard change event to Kafka
    */
-  async publishLeaderboardChange(data: any): Promise<void> {
+  async publishLeaderboardChange(data: LeaderboardChange): Promise<void> {
     if (!this.producer) {
       throw new Error('Producer not initialized');
     }
@@ -77,6 +79,8 @@ export class KafkaService {
       topic: this.LEADERBOARD_CHANGE_TOPIC,
       messages: [
         {
+          // Keyed by board so changes to one board stay ordered
+          key: data.board_id,
           value: JSON.stringify(message),
         },
       ],
@@ -95,6 +99,7 @@ export class KafkaService {
       topic: this.LEADERBOARD_TOPIC,
       messages: [
         {
+          key: leaderboardData.board_id,
           value: JSON.stringify(leaderboardData),
         },
       ],
@@ -192,5 +197,24 @@ export class KafkaService {
     }
     console.log('Kafka disconnected successfully');
   }
+
+  /**
+   * Delete the consumer's group and its committed offsets, for groups that
+   * are not reused once this process is gone. Call after disconnect().
+   */
+  async deleteConsumerGroup(): Promise<void> {
+    if (!this.groupId) {
+      throw new Error('Consumer not initialized');
+    }
+
+    const admin = this.kafka.admin();
+    await admin.connect();
+    try {
+      await admin.deleteGroups([this.groupId]);
+      console.log(`Kafka consumer group ${this.groupId} deleted`);
+    } finally {
+      await admin.disconnect();
+    }
+  }
 }
 
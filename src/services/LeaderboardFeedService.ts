@@ -0,0 +1,207 @@
+import {
+  EnhancedLeaderboardEntry,
+  LeaderboardBroadcast,
+  LeaderboardFeedMessage,
+  RankingChange,
+} from '../types';
+import { RedisService } from './RedisService';
+import { LeaderboardProcessingService } from './LeaderboardProcessingService';
+
+/**
+ * A board version as seen by this instance
+ */
+export interface TrackedVersion {
+  broadcast: LeaderboardBroadcast;
+  previous: LeaderboardBroadcast | null;
+  // Index of the first rank that changed since the previous version, or
+  // null when none did
+  firstChange: number | null;
+  // Version at which each top-N slice (index N - 1) last changed, before
+  // and including this version
+  baseVersions: number[];
+  sliceVersions: number[];
+}
+
+/**
+ * Turns published leaderboard versions into the snapshots and deltas of a
+ * board's top N (1-10) that WebSocket and Server-Sent Events clients
+ * receive.
+ *
+ * Live deltas are computed against the previous version this instance has
+ * seen. Each delta's base_version is the version at which that top N last
+ * changed, so subscribers of a small top N are not told about changes
+ * below it. Until an instance has seen a version of a board, its
+ * subscribers get snapshots.
+ */
+export class LeaderboardFeedService {
+  private redisService: RedisService;
+  private leaderboardProcessingService: LeaderboardProcessingService;
+  // Latest version seen per board
+  private tracked: Map<string, TrackedVersion> = new Map();
+
+  constructor(
+    redisService: RedisService,
+    leaderboardProcessingService: LeaderboardProcessingService
+  ) {
+    this.redisService = redisService;
+    this.leaderboardProcessingService = leaderboardProcessingService;
+  }
+
+  /**
+   * Record a published version. Returns null for versions older than the
+   * latest one seen; the latest version itself may be tracked repeatedly.
+   */
+  track(broadcast: LeaderboardBroadcast): TrackedVersion | null {
+    const last = this.tracked.get(broadcast.board_id);
+    if (last && broadcast.version === last.broadcast.version) {
+      return last;
+    }
+    if (last && broadcast.version < last.broadcast.version) {
+      return null;
+    }
+
+    const previous = last?.broadcast ?? null;
+    const firstChange = previous
+      ? this.firstDifference(previous.leaderboard, broadcast.leaderboard)
+      : 0;
+    const baseVersions = last?.sliceVersions ?? [];
+    const sliceVersions = [...baseVersions];
+    if (firstChange !== null) {
+      for (let top = firstChange + 1; top <= 10; top++) {
+        sliceVersions[top - 1] = broadcast.version;
+      }
+    }
+
+    const tracked = { broadcast, previous, firstChange, baseVersions, sliceVersions };
+    this.tracked.set(broadcast.board_id, tracked);
+    return tracked;
+  }
+
+  /**
+   * What a subscriber of the tracked version's top N receives, or null when
+   * that top N did not change
+   */
+  messageFor(tracked: TrackedVersion, top: number): LeaderboardFeedMessage | null {
+    const { broadcast, previous, firstChange, baseVersions } = tracked;
+    if (firstChange === null || top <= firstChange) {
+      return null;
+    }
+
+    const baseVersion = baseVersions[top - 1];
+    return previous && baseVersion !== undefined
+      ? this.deltaMessage({ ...previous, version: baseVersion }, broadcast, top)
+      : this.snapshotMessage(broadcast, top);
+  }
+
+  /**
+   * Latest version of a board seen by this instance
+   */
+  latest(boardId: string): LeaderboardBroadcast | undefined {
+    return this.tracked.get(boardId)?.broadcast;
+  }
+
+  /**
+   * The board's cached top N with usernames. A board without a published
+   * leaderboard yet is empty, version 0.
+   */
+  async loadSnapshot(boardId: string, top: number): Promise<LeaderboardFeedMessage> {
+    const cached = await this.redisService.getCachedLeaderboard(boardId);
+    const leaderboard = await this.leaderboardProcessingService.enhanceLeaderboardWithUserDetails(
+      cached?.top10 ?? []
+    );
+
+    return this.snapshotMessage(
+      {
+        board_id: boardId,
+        version: cached?.version ?? 0,
+        leaderboard,
+        timestamp: cached?.timestamp ?? Date.now(),
+      },
+      top
+    );
+  }
+
+  /**
+   * A delta from a client's version to the board's latest one, or a
+   * snapshot when that version is no longer in the history
+   */
+  async replay(boardId: string, fromVersion: number, top: number): Promise<LeaderboardFeedMessage> {
+    const history = await this.redisService.getLeaderboardHistory(boardId);
+    const base = history.find((broadcast) => broadcast.version === fromVersion);
+
+    return base ? this.deltaMessage(base, history[0], top) : await this.loadSnapshot(boardId, top);
+  }
+
+  snapshotMessage(
+    broadcast: Pick<LeaderboardBroadcast, 'board_id' | 'version' | 'leaderboard' | 'timestamp'>,
+    top: number
+  ): LeaderboardFeedMessage {
+    return {
+      type: 'leaderboard_snapshot',
+      data: {
+        board_id: broadcast.board_id,
+        version: broadcast.version,
+        top,
+        timestamp: broadcast.timestamp,
+        leaderboard: broadcast.leaderboard.slice(0, top),
+      },
+    };
+  }
+
+  private deltaMessage(
+    base: LeaderboardBroadcast,
+    next: LeaderboardBroadcast,
+    top: number
+  ): LeaderboardFeedMessage {
+    const baseSlice = base.leaderboard.slice(0, top);
+    const entries = next.leaderboard
+      .slice(0, top)
+      .filter((entry, index) => this.entryKey(entry) !== this.entryKey(baseSlice[index]));
+
+    const baseRanks = new Map(baseSlice.map((entry, index) => [entry.player_id, index + 1]));
+    const changedRankings: RankingChange[] = entries
+      .map((entry) => ({
+        player_id: entry.player_id,
+        oldRank: baseRanks.get(entry.player_id) ?? null,
+        newRank: entry.rank,
+      }))
+      .filter((change) => change.oldRank !== change.newRank);
+
+    return {
+      type: 'leaderboard_delta',
+      data: {
+        board_id: next.board_id,
+        version: next.version,
+        base_version: base.version,
+        top,
+        timestamp: next.timestamp,
+        entries,
+        size: Math.min(next.leaderboard.length, top),
+        changedRankings,
+      },
+    };
+  }
+
+  /**
+   * Index of the first rank at which two leaderboards differ, or null when
+   * they are the same
+   */
+  private firstDifference(
+    a: EnhancedLeaderboardEntry[],
+    b: EnhancedLeaderboardEntry[]
+  ): number | null {
+    for (let index = 0; index < Math.max(a.length, b.length); index++) {
+      if (this.entryKey(a[index]) !== this.entryKey(b[index])) {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Identity of a leaderboard entry: who holds which score since when
+   */
+  private entryKey(entry: EnhancedLeaderboardEntry | undefined): string | null {
+    return entry ? `${entry.player_id}:${entry.score}:${entry.achieved_at}` : null;
+  }
+}
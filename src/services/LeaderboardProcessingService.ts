@@ -1,7 +1,14 @@
 import { RedisService } from './RedisService';
 import { KafkaService } from './KafkaService';
 import { DatabaseService } from './DatabaseService';
-import { LeaderboardEntry, EnhancedLeaderboardEntry, LeaderboardUpdate } from '../types';
+import {
+  LeaderboardEntry,
+  EnhancedLeaderboardEntry,
+  LeaderboardUpdate,
+  LeaderboardBroadcast,
+  RankingChange,
+  DEFAULT_BOARD_ID,
+} from '../types';
 import * as crypto from 'crypto';
 
 export class LeaderboardProcessingService {
@@ -9,17 +16,21 @@ export class LeaderboardProcessingService {
   private kafkaService: KafkaService;
   private dbService: DatabaseService;
   private throttleDuration: number;
+  // Published versions kept per board for clients catching up
+  private historySize: number;
 
   constructor(
     redisService: RedisService,
     kafkaService: KafkaService,
     dbService: DatabaseService,
-    throttleDuration: number = 500
+    throttleDuration: number = 500,
+    historySize: number = 50
   ) {
     this.redisService = redisService;
     this.kafkaService = kafkaService;
     this.dbService = dbService;
     this.throttleDuration = throttleDuration;
+    this.historySize = historySize;
   }
 
   /**
@@ -27,11 +38,13 @@ export class LeaderboardProcessingService {
    */
   async processLeaderboardChange(message: any): Promise<void> {
     const currentTime = message.timestamp || Date.now();
+    // Messages published before named boards existed carry no board id
+    const boardId: string = message.data?.board_id || DEFAULT_BOARD_ID;
     
-    // Get the last update timestamp from Redis
-    const lastUpdateTime = await this.redisService.getLastUpdateTimestamp();
+    // Get the last update timestamp for this board from Redis
+    const lastUpdateTime = await this.redisService.getLastUpdateTimestamp(boardId);
 
-    console.log(`[Leaderboard] Processing change event at ${currentTime}`);
+    console.log(`[Leaderboard] Processing change event for board ${boardId} at ${currentTime}`);
 
     // Check throttle duration
     if (lastUpdateTime !== null) {
@@ -46,15 +59,31 @@ export class LeaderboardProcessingService {
       }
     }
 
+    await this.publishLeaderboard(boardId, currentTime);
+  }
+
+  /**
+   * Publish a board's top 10 right away, bypassing the throttle, e.g. after
+   * an admin changed scores outside the normal submission flow
+   */
+  async refreshLeaderboard(boardId: string): Promise<void> {
+    console.log(`[Leaderboard] Forced refresh of board ${boardId}`);
+    await this.publishLeaderboard(boardId, Date.now());
+  }
+
+  /**
+   * Publish the board's top 10 to Kafka if it changed since the cached one
+   */
+  private async publishLeaderboard(boardId: string, currentTime: number): Promise<void> {
     // Fetch top 10 players from Redis SortedSet
-    const top10 = await this.redisService.getTopPlayers(10);
-    console.log(`[Leaderboard] Fetched top 10 players:`, top10);
+    const top10 = await this.redisService.getTopPlayers(boardId, 10);
+    console.log(`[Leaderboard] Fetched top 10 players of board ${boardId}:`, top10);
 
     // Generate checksum for the leaderboard
     const checksum = this.generateChecksum(top10);
 
     // Get cached leaderboard
-    const cachedLeaderboard = await this.redisService.getCachedLeaderboard();
+    const cachedLeaderboard = await this.redisService.getCachedLeaderboard(boardId);
 
     // Check if leaderboard actually changed using checksum
     if (cachedLeaderboard && cachedLeaderboard.checksum === checksum) {
@@ -67,16 +96,21 @@ export class LeaderboardProcessingService {
     // Enhance leaderboard with user details
     const enhancedLeaderboard = await this.enhanceLeaderboardWithUserDetails(top10);
 
+    // Published as the board's next version
+    const version = await this.redisService.nextLeaderboardVersion(boardId);
+
     // Create leaderboard update object
     const leaderboardUpdate: LeaderboardUpdate = {
+      board_id: boardId,
       top10,
       timestamp: currentTime,
       checksum,
+      version,
     };
 
     // Cache the new leaderboard in Redis (O(1) lookup)
     await this.redisService.cacheLeaderboard(leaderboardUpdate);
-    await this.redisService.setLastUpdateTimestamp(currentTime);
+    await this.redisService.setLastUpdateTimestamp(boardId, currentTime);
 
     // Determine which rankings changed
     const changedRankings = this.findChangedRankings(
@@ -85,24 +119,29 @@ export class LeaderboardProcessingService {
     );
 
     // Publish to Kafka leaderboard topic with enhanced user details
-    await this.kafkaService.publishLeaderboardUpdate({
+    const broadcast: LeaderboardBroadcast = {
+      board_id: boardId,
+      version,
       leaderboard: enhancedLeaderboard,
       timestamp: currentTime,
       checksum,
       changedRankings,
-    });
+    };
+    await this.redisService.addLeaderboardHistory(broadcast, this.historySize);
+    await this.kafkaService.publishLeaderboardUpdate(broadcast);
 
     console.log(
-      `[Leaderboard] Update published. Changed rankings: ${changedRankings.length}`
+      `[Leaderboard] Update published for board ${boardId}. Changed rankings: ${changedRankings.length}`
     );
   }
 
   /**
-   * Generate checksum for leaderboard based on userId + score
+   * Generate checksum for leaderboard based on userId + score + achievement
+   * time, so a re-ordering of tied players is detected as a change
    */
   private generateChecksum(leaderboard: LeaderboardEntry[]): string {
     const data = leaderboard
-      .map((entry) => `${entry.player_id}:${entry.score}`)
+      .map((entry) => `${entry.player_id}:${entry.score}:${entry.achieved_at}`)
       .join('|');
     
     return crypto.createHash('sha256').update(data).digest('hex');
@@ -111,10 +150,10 @@ export class LeaderboardProcessingService {
   /**
    * Enhance leaderboard with user details from cache
    */
-  private async enhanceLeaderboardWithUserDetails(
-    leaderboard: LeaderboardEntry[]
-  ): Promise<EnhancedLeaderboardEntry[]> {
-    const enhanced: EnhancedLeaderboardEntry[] = [];
+  async enhanceLeaderboardWithUserDetails<T extends LeaderboardEntry>(
+    leaderboard: T[]
+  ): Promise<Array<T & EnhancedLeaderboardEntry>> {
+    const enhanced: Array<T & EnhancedLeaderboardEntry> = [];
 
     for (const entry of leaderboard) {
       // Try to get user from cache first (O(1))
@@ -143,12 +182,8 @@ export class LeaderboardProcessingService {
   private findChangedRankings(
     oldLeaderboard: LeaderboardEntry[],
     newLeaderboard: LeaderboardEntry[]
-  ): Array<{ player_id: string; oldRank: number | null; newRank: number }> {
-    const changes: Array<{
-      player_id: string;
-      oldRank: number | null;
-      newRank: number;
-    }> = [];
+  ): RankingChange[] {
+    const changes: RankingChange[] = [];
 
     // Create a map of old rankings for quick lookup
     const oldRankMap = new Map<string, number>();
@@ -176,8 +211,10 @@ export class LeaderboardProcessingService {
   /**
    * Get current leaderboard state
    */
-  async getCurrentLeaderboard(): Promise<EnhancedLeaderboardEntry[]> {
-    const top10 = await this.redisService.getTopPlayers(10);
+  async getCurrentLeaderboard(
+    boardId: string = DEFAULT_BOARD_ID
+  ): Promise<EnhancedLeaderboardEntry[]> {
+    const top10 = await this.redisService.getTopPlayers(boardId, 10);
     return await this.enhanceLeaderboardWithUserDetails(top10);
   }
 
@@ -0,0 +1,191 @@
+import { RedisService } from './RedisService';
+import {
+  HistogramBucket,
+  PercentileThreshold,
+  ScoreSummary,
+  WindowPeriod,
+} from '../types';
+
+/**
+ * Score distribution analytics computed from the board's sorted set.
+ * Every figure costs O(log N) per lookup (ZCOUNT / ZRANGE by index) and is
+ * cached briefly, so queries stay cheap on boards with millions of players.
+ */
+export class LeaderboardStatisticsService {
+  private redisService: RedisService;
+  private readonly cacheTtlSeconds: number;
+
+  constructor(redisService: RedisService, cacheTtlSeconds: number = 30) {
+    this.redisService = redisService;
+    this.cacheTtlSeconds = cacheTtlSeconds;
+  }
+
+  /**
+   * Get count, min, max, mean and median of a board
+   */
+  async getSummary(boardId: string, period?: WindowPeriod): Promise<ScoreSummary> {
+    return this.cached(this.cacheKey(boardId, period, 'summary'), async () => {
+      const total = await this.redisService.getTotalPlayers(boardId, period);
+
+      if (total === 0) {
+        return { total_players: 0, min: null, max: null, mean: null, median: null };
+      }
+
+      const [min, max, sum, median] = await Promise.all([
+        this.redisService.getScoreAtAscendingIndex(boardId, 0, period),
+        this.redisService.getScoreAtAscendingIndex(boardId, total - 1, period),
+        this.redisService.getScoreSum(boardId, period),
+        this.scoreAtPercentile(boardId, total, 50, period),
+      ]);
+
+      return {
+        total_players: total,
+        min,
+        max,
+        mean: Math.round((sum / total) * 100) / 100,
+        median,
+      };
+    });
+  }
+
+  /**
+   * Get a histogram of scores. Buckets are either `buckets` equal-width
+   * ranges between the lowest and highest score, or start at each of the
+   * given ascending `edges` (the last bucket is open-ended).
+   */
+  async getHistogram(
+    boardId: string,
+    options: { buckets?: number; edges?: number[] },
+    period?: WindowPeriod
+  ): Promise<HistogramBucket[]> {
+    const variant = options.edges
+      ? `histogram:edges:${options.edges.join(',')}`
+      : `histogram:buckets:${options.buckets}`;
+
+    return this.cached(this.cacheKey(boardId, period, variant), async () => {
+      const total = await this.redisService.getTotalPlayers(boardId, period);
+      if (total === 0) {
+        return [];
+      }
+
+      const max = (await this.redisService.getScoreAtAscendingIndex(
+        boardId,
+        total - 1,
+        period
+      )) as number;
+
+      let ranges: Array<[number, number]>;
+
+      if (options.edges) {
+        const edges = options.edges;
+        ranges = edges.map((edge, index) => [
+          edge,
+          index < edges.length - 1 ? edges[index + 1] - 1 : Math.max(edge, max),
+        ]);
+      } else {
+        const min = (await this.redisService.getScoreAtAscendingIndex(
+          boardId,
+          0,
+          period
+        )) as number;
+        const buckets = options.buckets ?? 10;
+        const width = Math.max(1, Math.ceil((max - min + 1) / buckets));
+
+        ranges = [];
+        for (let start = min; start <= max; start += width) {
+          ranges.push([start, Math.min(start + width - 1, max)]);
+        }
+      }
+
+      const counts = await Promise.all(
+        ranges.map(([low, high]) =>
+          this.redisService.countScoresBetween(boardId, low, high, period)
+        )
+      );
+
+      return ranges.map(([low, high], index) => ({
+        min: low,
+        max: high,
+        count: counts[index],
+      }));
+    });
+  }
+
+  /**
+   * Get the lowest score that reaches each percentile (nearest-rank method),
+   * e.g. percentile 99 is the score needed to be in the top 1%
+   */
+  async getPercentileThresholds(
+    boardId: string,
+    percentiles: number[],
+    period?: WindowPeriod
+  ): Promise<PercentileThreshold[]> {
+    const variant = `percentiles:${percentiles.join(',')}`;
+
+    return this.cached(this.cacheKey(boardId, period, variant), async () => {
+      const total = await this.redisService.getTotalPlayers(boardId, period);
+      if (total === 0) {
+        return [];
+      }
+
+      const scores = await Promise.all(
+        percentiles.map((percentile) =>
+          this.scoreAtPercentile(boardId, total, percentile, period)
+        )
+      );
+
+      return percentiles.map((percentile, index) => ({
+        percentile,
+        score: scores[index] as number,
+      }));
+    });
+  }
+
+  /**
+   * Position of a rank among all players: the percentage of players ranked
+   * below it, and the "top X%" it belongs to
+   */
+  getRankPercentile(
+    rank: number,
+    total: number
+  ): { percentile: number; top_percent: number } {
+    return {
+      percentile: this.round(((total - rank) / total) * 100),
+      top_percent: this.round((rank / total) * 100),
+    };
+  }
+
+  private async scoreAtPercentile(
+    boardId: string,
+    total: number,
+    percentile: number,
+    period?: WindowPeriod
+  ): Promise<number | null> {
+    const index = Math.max(Math.ceil((percentile / 100) * total) - 1, 0);
+    return this.redisService.getScoreAtAscendingIndex(boardId, index, period);
+  }
+
+  private cacheKey(boardId: string, period: WindowPeriod | undefined, variant: string): string {
+    const scope = period ? `${period.window}:${period.period}` : 'alltime';
+    return `${boardId}:${scope}:${variant}`;
+  }
+
+  /**
+   * Serve a computation from the statistics cache, computing and caching it
+   * on a miss
+   */
+  private async cached<T>(cacheKey: string, compute: () => Promise<T>): Promise<T> {
+    const cached = await this.redisService.getCachedStatistics(cacheKey);
+    if (cached !== null) {
+      return cached as T;
+    }
+
+    const result = await compute();
+    await this.redisService.cacheStatistics(cacheKey, result, this.cacheTtlSeconds);
+    return result;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,215 @@
+import {
+  ScoreAdjustment,
+  ScoreHistoryPage,
+  ScoreHistoryQuery,
+  ScoreSubmission,
+  User,
+} from '../types';
+import { DatabaseService, aggregateSubmissions } from './DatabaseService';
+import { FileDeadLetterQueue } from './FileDeadLetterQueue';
+
+/**
+ * Mock Database Service for local development: logs the queries the
+ * PostgreSQL implementation would run and fabricates users
+ */
+export class MockDatabaseService implements DatabaseService {
+  private deadLetterQueue: FileDeadLetterQueue;
+
+  constructor(deadLetterQueue: FileDeadLetterQueue = new FileDeadLetterQueue()) {
+    this.deadLetterQueue = deadLetterQueue;
+  }
+
+  async connect(): Promise<void> {
+    console.log('[DB] Using mock database');
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to close
+  }
+
+  /**
+   * Mock batch save: logs the statements PostgresDatabaseService runs
+   */
+  async saveBatch(submissions: ScoreSubmission[], batchId?: string): Promise<void> {
+    // Simulate database operation
+    console.log(`[DB] Saving batch of ${submissions.length} score submissions...`);
+    
+    // Simulate network delay
+    await this.simulateDelay(50, 150);
+
+    // 0. A batch with an id is claimed first; nothing is written if it was
+    // saved before
+    if (batchId !== undefined) {
+      console.log(
+        '[DB] Claim structure: INSERT INTO saved_batches (batch_id) VALUES (?) ON CONFLICT DO NOTHING'
+      );
+    }
+
+    // 1. Every submission is kept in the score history
+    const query = `
+      INSERT INTO scores (board_id, player_id, score, aggregation, rank_at_submission, timestamp, accepted_at, created_at)
+      VALUES ${submissions.map(() => '(?, ?, ?, ?, ?, ?, ?, NOW())').join(', ')}
+      ON CONFLICT (board_id, player_id, timestamp)
+      DO UPDATE SET score = EXCLUDED.score, rank_at_submission = EXCLUDED.rank_at_submission
+    `;
+
+    // 2. The stored score per board and player follows the board's policy
+    const aggregated = aggregateSubmissions(submissions);
+    const upsert = `
+      INSERT INTO player_scores (board_id, player_id, score, aggregation, achieved_at)
+      VALUES ${aggregated.map(() => '(?, ?, ?, ?, ?)').join(', ')}
+      ON CONFLICT (board_id, player_id)
+      DO UPDATE SET
+        score = CASE EXCLUDED.aggregation
+          WHEN 'best' THEN GREATEST(player_scores.score, EXCLUDED.score)
+          WHEN 'minimum' THEN LEAST(player_scores.score, EXCLUDED.score)
+          WHEN 'cumulative' THEN player_scores.score + EXCLUDED.score
+          ELSE CASE WHEN EXCLUDED.achieved_at >= player_scores.achieved_at
+            THEN EXCLUDED.score ELSE player_scores.score END
+        END,
+        achieved_at = GREATEST(player_scores.achieved_at, EXCLUDED.achieved_at)
+    `;
+
+    console.log(`[DB] Query structure: ${query}`);
+    console.log(`[DB] Upsert structure: ${upsert}`);
+    console.log(
+      `[DB] Batch saved successfully. Records: ${submissions.length}, stored scores: ${aggregated.length}`
+    );
+  }
+
+  /**
+   * Save failed batch to dead letter queue
+   */
+  async saveToDeadLetterQueue(
+    submissions: ScoreSubmission[],
+    errorMessage?: string
+  ): Promise<void> {
+    await this.deadLetterQueue.append(submissions, errorMessage);
+    console.log(`[DB] Saved ${submissions.length} records to dead letter queue`);
+  }
+
+  /**
+   * Mock user fetch
+   * In production, this would query the users table
+   */
+  async getUser(userId: string): Promise<User | null> {
+    // Simulate database query
+    await this.simulateDelay(10, 30);
+
+    // Mock user data
+    return {
+      id: userId,
+      username: `user_${userId.substring(0, 8)}`,
+    };
+  }
+
+  /**
+   * Mock batch user fetch
+   */
+  async getUsers(userIds: string[]): Promise<Map<string, User>> {
+    await this.simulateDelay(20, 50);
+
+    const users = new Map<string, User>();
+    for (const userId of userIds) {
+      users.set(userId, {
+        id: userId,
+        username: `user_${userId.substring(0, 8)}`,
+      });
+    }
+
+    return users;
+  }
+
+  /**
+   * Get historical scores for a player
+   */
+  async getPlayerHistory(
+    boardId: string,
+    playerId: string,
+    query: ScoreHistoryQuery
+  ): Promise<ScoreHistoryPage> {
+    await this.simulateDelay(30, 60);
+
+    // Mock query:
+    // SELECT * FROM scores WHERE board_id = ? AND player_id = ?
+    //   AND timestamp BETWEEN ? AND ? ORDER BY timestamp DESC, id DESC LIMIT ?
+
+    console.log(
+      `[DB] Fetching history for player ${playerId} on board ${boardId}, limit: ${query.limit}`
+    );
+    return { board_id: boardId, player_id: playerId, entries: [], next_cursor: null };
+  }
+
+  /**
+   * The mock persists nothing, so there are no boards to rebuild
+   */
+  async getBoardIds(): Promise<string[]> {
+    await this.simulateDelay(10, 30);
+
+    // Mock query:
+    // SELECT DISTINCT board_id FROM scores
+
+    return [];
+  }
+
+  async *streamSubmissions(chunkSize: number): AsyncGenerator<ScoreSubmission[]> {
+    await this.simulateDelay(30, 60);
+
+    // Mock query, repeated per chunk:
+    // SELECT * FROM scores WHERE (timestamp, id) > (?, ?) AND id <= ?
+    //   ORDER BY timestamp, id LIMIT ?
+
+    console.log(`[DB] Streaming persisted submissions, chunk size: ${chunkSize}`);
+  }
+
+  /**
+   * Mock adjustment save: logs the statement
+   */
+  async saveAdjustment(adjustment: ScoreAdjustment): Promise<void> {
+    console.log(
+      '[DB] Query structure: INSERT INTO score_adjustments ' +
+        '(action, board_id, player_id, score, applied_at) VALUES (?, ?, ?, ?, ?)',
+      adjustment
+    );
+  }
+
+  /**
+   * The mock persists nothing, so there are no adjustments to replay
+   */
+  async getAdjustments(): Promise<ScoreAdjustment[]> {
+    await this.simulateDelay(10, 30);
+
+    // Mock query:
+    // SELECT * FROM score_adjustments ORDER BY applied_at, id
+
+    return [];
+  }
+
+  /**
+   * Get statistics
+   */
+  async getStats(): Promise<{
+    totalScores: number;
+    totalPlayers: number;
+    avgScore: number;
+  }> {
+    await this.simulateDelay(50, 100);
+
+    // Mock aggregation query
+    console.log('[DB] Fetching statistics...');
+    
+    return {
+      totalScores: 0,
+      totalPlayers: 0,
+      avgScore: 0,
+    };
+  }
+
+  /**
+   * Simulate database delay
+   */
+  private simulateDelay(minMs: number, maxMs: number): Promise<void> {
+    const delay = Math.random() * (maxMs - minMs) + minMs;
+    return new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
@@ -0,0 +1,288 @@
+import { AuditEntry, PlayerBan, ScoreAdjustment } from '../types';
+import { RedisService } from './RedisService';
+import { DatabaseService } from './DatabaseService';
+import { TimeWindowService } from './TimeWindowService';
+import { LeaderboardProcessingService } from './LeaderboardProcessingService';
+import { AuditLogService } from './AuditLogService';
+import { RebuildInProgressError } from './RebuildService';
+
+export class PlayerNotOnBoardError extends Error {
+  constructor(boardId: string, playerId: string) {
+    super(`Player ${playerId} has no score on board ${boardId}`);
+    this.name = 'PlayerNotOnBoardError';
+  }
+}
+
+export class PlayerNotBannedError extends Error {
+  constructor(playerId: string) {
+    super(`Player ${playerId} is not banned`);
+    this.name = 'PlayerNotBannedError';
+  }
+}
+
+export class PlayerAlreadyBannedError extends Error {
+  constructor(playerId: string) {
+    super(`Player ${playerId} is already banned`);
+    this.name = 'PlayerAlreadyBannedError';
+  }
+}
+
+/**
+ * Admin corrections to the live leaderboards. Each action is recorded in
+ * the audit log and republishes the affected boards' top 10 right away.
+ *
+ * Changes apply to the all-time boards and the current daily/weekly/monthly
+ * periods; archived standings and persisted submissions are left as they
+ * were. Removals and overrides are also recorded in the database before
+ * they are applied, so that a rebuild from it applies them again; while a
+ * rebuild runs, actions are refused.
+ */
+export class ModerationService {
+  private redisService: RedisService;
+  private dbService: DatabaseService;
+  private timeWindowService: TimeWindowService;
+  private leaderboardProcessingService: LeaderboardProcessingService;
+  private auditLogService: AuditLogService;
+
+  constructor(
+    redisService: RedisService,
+    dbService: DatabaseService,
+    timeWindowService: TimeWindowService,
+    leaderboardProcessingService: LeaderboardProcessingService,
+    auditLogService: AuditLogService
+  ) {
+    this.redisService = redisService;
+    this.dbService = dbService;
+    this.timeWindowService = timeWindowService;
+    this.leaderboardProcessingService = leaderboardProcessingService;
+    this.auditLogService = auditLogService;
+  }
+
+  /**
+   * Remove a player from every board
+   */
+  async removePlayer(playerId: string, actor: string, reason: string | null): Promise<AuditEntry> {
+    await this.assertNoRebuild();
+    const boards = await this.removeFromAllBoards(playerId);
+
+    const entry = await this.auditLogService.record(
+      'remove_player',
+      actor,
+      { player_id: playerId },
+      reason,
+      { boards }
+    );
+    await this.refresh(Object.keys(boards));
+    return entry;
+  }
+
+  /**
+   * Clear a player's score on one board, so their next submission starts
+   * afresh
+   */
+  async resetScore(
+    boardId: string,
+    playerId: string,
+    actor: string,
+    reason: string | null
+  ): Promise<AuditEntry> {
+    await this.assertNoRebuild();
+    await this.assertOnBoard(boardId, playerId);
+    await this.persist({ action: 'remove', board_id: boardId, player_id: playerId, score: null });
+
+    const previousScore = await this.redisService.removePlayer(
+      boardId,
+      playerId,
+      this.timeWindowService.getActivePeriods()
+    );
+    if (previousScore === null) {
+      throw new PlayerNotOnBoardError(boardId, playerId);
+    }
+
+    const entry = await this.auditLogService.record(
+      'reset_score',
+      actor,
+      { board_id: boardId, player_id: playerId },
+      reason,
+      { previous_score: previousScore }
+    );
+    await this.refresh([boardId]);
+    return entry;
+  }
+
+  /**
+   * Replace a player's score on one board, regardless of its aggregation
+   * policy. Current periods that rank the player get the same score.
+   */
+  async overrideScore(
+    boardId: string,
+    playerId: string,
+    score: number,
+    actor: string,
+    reason: string | null
+  ): Promise<AuditEntry> {
+    await this.assertNoRebuild();
+    await this.assertOnBoard(boardId, playerId);
+    await this.persist({ action: 'override', board_id: boardId, player_id: playerId, score });
+
+    const previousScore = await this.redisService.setPlayerScore(
+      boardId,
+      playerId,
+      score,
+      this.timeWindowService.getActivePeriods()
+    );
+    if (previousScore === null) {
+      throw new PlayerNotOnBoardError(boardId, playerId);
+    }
+
+    const entry = await this.auditLogService.record(
+      'override_score',
+      actor,
+      { board_id: boardId, player_id: playerId },
+      reason,
+      { previous_score: previousScore, score }
+    );
+    await this.refresh([boardId]);
+    return entry;
+  }
+
+  /**
+   * Bar a player from submitting, optionally removing their scores from
+   * every board as well
+   */
+  async banPlayer(
+    playerId: string,
+    actor: string,
+    reason: string | null,
+    removeScores: boolean
+  ): Promise<{ ban: PlayerBan; entry: AuditEntry }> {
+    await this.assertNoRebuild();
+    const ban: PlayerBan = {
+      player_id: playerId,
+      reason,
+      banned_by: actor,
+      banned_at: new Date().toISOString(),
+    };
+    if (!(await this.redisService.banPlayer(ban))) {
+      throw new PlayerAlreadyBannedError(playerId);
+    }
+
+    let boards: Record<string, number> = {};
+    try {
+      boards = removeScores ? await this.removeFromAllBoards(playerId) : {};
+    } catch (error) {
+      // The ban stands, so it is audited even though removing scores failed
+      await this.auditLogService.record('ban_player', actor, { player_id: playerId }, reason, {
+        removed_from: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    const entry = await this.auditLogService.record(
+      'ban_player',
+      actor,
+      { player_id: playerId },
+      reason,
+      removeScores ? { removed_from: boards } : {}
+    );
+    await this.refresh(Object.keys(boards));
+    return { ban, entry };
+  }
+
+  async unbanPlayer(playerId: string, actor: string, reason: string | null): Promise<AuditEntry> {
+    await this.assertNoRebuild();
+    if (!(await this.redisService.unbanPlayer(playerId))) {
+      throw new PlayerNotBannedError(playerId);
+    }
+
+    return await this.auditLogService.record('unban_player', actor, { player_id: playerId }, reason);
+  }
+
+  async getBan(playerId: string): Promise<PlayerBan | null> {
+    return await this.redisService.getBan(playerId);
+  }
+
+  async listBans(): Promise<PlayerBan[]> {
+    return await this.redisService.getBans();
+  }
+
+  /**
+   * Remove every score from a board and its current periods. The board's
+   * configuration is kept.
+   */
+  async wipeBoard(boardId: string, actor: string, reason: string | null): Promise<AuditEntry> {
+    await this.assertNoRebuild();
+    await this.persist({ action: 'remove', board_id: boardId, player_id: null, score: null });
+
+    const players = await this.redisService.getTotalPlayers(boardId);
+    await this.redisService.clearBoard(boardId, this.timeWindowService.getActivePeriods());
+
+    const entry = await this.auditLogService.record(
+      'wipe_board',
+      actor,
+      { board_id: boardId },
+      reason,
+      { players }
+    );
+    await this.refresh([boardId]);
+    return entry;
+  }
+
+  /**
+   * Remove a player from all boards. Returns the removed all-time score
+   * per board the player was on.
+   */
+  private async removeFromAllBoards(playerId: string): Promise<Record<string, number>> {
+    await this.persist({ action: 'remove', board_id: null, player_id: playerId, score: null });
+
+    const periods = this.timeWindowService.getActivePeriods();
+    const removed: Record<string, number> = {};
+
+    for (const boardId of await this.redisService.getBoards()) {
+      const score = await this.redisService.removePlayer(boardId, playerId, periods);
+      if (score !== null) {
+        removed[boardId] = score;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Refuse actions while a rebuild replays the database, which would not
+   * see them
+   */
+  private async assertNoRebuild(): Promise<void> {
+    if (await this.redisService.isRebuildRunning()) {
+      throw new RebuildInProgressError();
+    }
+  }
+
+  private async assertOnBoard(boardId: string, playerId: string): Promise<void> {
+    if ((await this.redisService.getPlayerScore(boardId, playerId)) === null) {
+      throw new PlayerNotOnBoardError(boardId, playerId);
+    }
+  }
+
+  /**
+   * Record a change in the database before it is applied to Redis
+   */
+  private async persist(adjustment: Omit<ScoreAdjustment, 'applied_at'>): Promise<void> {
+    await this.dbService.saveAdjustment({ ...adjustment, applied_at: new Date().toISOString() });
+  }
+
+  /**
+   * Republish the boards' top 10. The action itself already succeeded, so
+   * failures are only logged.
+   */
+  private async refresh(boardIds: string[]): Promise<void> {
+    for (const boardId of boardIds) {
+      try {
+        await this.leaderboardProcessingService.refreshLeaderboard(boardId);
+      } catch (error) {
+        console.error(`[Moderation] Failed to refresh board ${boardId}:`, error);
+      }
+    }
+  }
+}
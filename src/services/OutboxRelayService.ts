@@ -0,0 +1,109 @@
+import { OutboxEntry } from '../types';
+import { RedisService } from './RedisService';
+import { KafkaService } from './KafkaService';
+
+/**
+ * Publishes accepted submissions from the Redis outbox stream to Kafka.
+ *
+ * Submissions enter the outbox in the same script that applies them to the
+ * leaderboard, so Redis and Kafka cannot diverge. Relays on all instances
+ * share one consumer group; an entry is acknowledged and deleted only after
+ * it was published, and entries left unacknowledged (Kafka failure, crashed
+ * instance) are claimed again after claimIdleMs. A crash between publishing
+ * and acknowledging can publish an entry twice, so messages carry the entry
+ * id as outbox_id for the score consumer to drop the duplicate.
+ */
+export class OutboxRelayService {
+  private redisService: RedisService;
+  private kafkaService: KafkaService;
+  private readonly consumerName: string;
+  private readonly batchSize: number;
+  private readonly claimIdleMs: number;
+  private readonly BLOCK_MS = 1000;
+  private readonly RETRY_DELAY_MS = 1000;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(
+    redisService: RedisService,
+    kafkaService: KafkaService,
+    consumerName: string,
+    batchSize: number = 100,
+    claimIdleMs: number = 30000
+  ) {
+    this.redisService = redisService;
+    this.kafkaService = kafkaService;
+    this.consumerName = consumerName;
+    this.batchSize = batchSize;
+    this.claimIdleMs = claimIdleMs;
+  }
+
+  /**
+   * Start relaying in the background
+   */
+  async start(): Promise<void> {
+    await this.redisService.ensureOutboxGroup();
+    this.running = true;
+    this.loop = this.run();
+    console.log(`[Outbox] Relay started as consumer ${this.consumerName}`);
+  }
+
+  /**
+   * Stop after the current batch. Unpublished entries stay in the outbox.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+  }
+
+  private async run(): Promise<void> {
+    let lastClaim = 0;
+
+    while (this.running) {
+      try {
+        if (Date.now() - lastClaim >= this.claimIdleMs) {
+          lastClaim = Date.now();
+          const stale = await this.redisService.claimStaleOutbox(
+            this.consumerName,
+            this.claimIdleMs,
+            this.batchSize
+          );
+          if (stale.length > 0) {
+            console.log(`[Outbox] Claimed ${stale.length} stale entries`);
+            await this.relay(stale);
+          }
+        }
+
+        const entries = await this.redisService.readOutbox(
+          this.consumerName,
+          this.batchSize,
+          this.BLOCK_MS
+        );
+        await this.relay(entries);
+      } catch (error) {
+        console.error('[Outbox] Error relaying outbox entries:', error);
+        await new Promise((resolve) => setTimeout(resolve, this.RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  /**
+   * Publish entries in stream order, acknowledging those that were sent
+   * even when a later one fails
+   */
+  private async relay(entries: OutboxEntry[]): Promise<void> {
+    const published: string[] = [];
+
+    try {
+      for (const entry of entries) {
+        await this.kafkaService.publishScoreSubmission(entry.submission);
+        if (entry.change) {
+          await this.kafkaService.publishLeaderboardChange(entry.change);
+        }
+        published.push(entry.id);
+      }
+    } finally {
+      await this.redisService.ackOutbox(published);
+    }
+  }
+}
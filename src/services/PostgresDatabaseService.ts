@@ -0,0 +1,456 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import {
+  AggregationPolicy,
+  ScoreAdjustment,
+  ScoreHistoryPage,
+  ScoreHistoryQuery,
+  ScoreSubmission,
+  User,
+} from '../types';
+import { DatabaseService, aggregateSubmissions } from './DatabaseService';
+import { FileDeadLetterQueue } from './FileDeadLetterQueue';
+import { InvalidCursorError } from './RedisService';
+import { migrations } from '../database/migrations';
+
+/**
+ * PostgreSQL implementation of DatabaseService with connection pooling
+ */
+export class PostgresDatabaseService implements DatabaseService {
+  private pool: Pool;
+  private deadLetterQueue: FileDeadLetterQueue;
+  // Rows per INSERT statement, keeping bind parameters well below the 65535 limit
+  private readonly INSERT_CHUNK_SIZE = 1000;
+  // Arbitrary key for the advisory lock that serializes migrations across instances
+  private readonly MIGRATION_LOCK_KEY = 4823701;
+
+  constructor(
+    connectionString: string,
+    poolSize: number = 10,
+    deadLetterQueue: FileDeadLetterQueue = new FileDeadLetterQueue()
+  ) {
+    this.pool = new Pool({
+      connectionString,
+      max: poolSize,
+    });
+    this.deadLetterQueue = deadLetterQueue;
+
+    this.pool.on('error', (err) => console.error('[DB] Idle client error', err));
+  }
+
+  /**
+   * Verify connectivity and apply pending migrations
+   */
+  async connect(): Promise<void> {
+    await this.migrate();
+    console.log('PostgreSQL connected successfully');
+  }
+
+  async disconnect(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * Apply migrations that have not run yet, each in its own transaction
+   */
+  private async migrate(): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          id INTEGER PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          applied_at TIMESTAMPTZ DEFAULT NOW()
+        )
+      `);
+
+      for (const migration of migrations) {
+        await this.inTransaction(client, async () => {
+          // Held until commit, so concurrent instances apply each migration once
+          await client.query('SELECT pg_advisory_xact_lock($1)', [this.MIGRATION_LOCK_KEY]);
+
+          const applied = await client.query('SELECT 1 FROM schema_migrations WHERE id = $1', [
+            migration.id,
+          ]);
+          if (applied.rowCount) {
+            return;
+          }
+
+          console.log(`[DB] Applying migration ${migration.id}_${migration.name}`);
+          await client.query(migration.sql);
+          await client.query('INSERT INTO schema_migrations (id, name) VALUES ($1, $2)', [
+            migration.id,
+            migration.name,
+          ]);
+        });
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Batch save in a single transaction: history rows are upserted on
+   * (board_id, player_id, timestamp) and stored scores per the board policy
+   */
+  async saveBatch(submissions: ScoreSubmission[], batchId?: string): Promise<void> {
+    if (submissions.length === 0) {
+      return;
+    }
+
+    // The same instant can be written with different offsets; in UTC the
+    // timestamps compare and deduplicate as the database sees them
+    const normalized = submissions.map((s) => ({
+      ...s,
+      timestamp: new Date(s.timestamp).toISOString(),
+    }));
+
+    // A repeated (board, player, timestamp) keeps the last submission, as
+    // ON CONFLICT cannot update the same row twice in one statement
+    const history = Array.from(
+      new Map(
+        normalized.map((s) => [`${s.board_id}:${s.player_id}:${s.timestamp}`, s])
+      ).values()
+    );
+    const aggregated = aggregateSubmissions(normalized);
+
+    const client = await this.pool.connect();
+    let alreadySaved = false;
+
+    try {
+      await this.inTransaction(client, async () => {
+        if (batchId !== undefined) {
+          const claimed = await client.query(
+            'INSERT INTO saved_batches (batch_id) VALUES ($1) ON CONFLICT DO NOTHING',
+            [batchId]
+          );
+          if (claimed.rowCount === 0) {
+            alreadySaved = true;
+            return;
+          }
+        }
+
+        for (const chunk of this.chunk(history)) {
+          await client.query(
+            `
+            INSERT INTO scores
+              (board_id, player_id, score, aggregation, rank_at_submission, timestamp, accepted_at)
+            VALUES ${this.placeholders(chunk.length, 7)}
+            ON CONFLICT (board_id, player_id, timestamp)
+            DO UPDATE SET
+              score = EXCLUDED.score,
+              rank_at_submission = EXCLUDED.rank_at_submission,
+              accepted_at = EXCLUDED.accepted_at
+            `,
+            chunk.flatMap((s) => [
+              s.board_id,
+              s.player_id,
+              s.score,
+              s.aggregation,
+              s.rank_at_submission ?? null,
+              s.timestamp,
+              s.accepted_at ?? s.timestamp,
+            ])
+          );
+        }
+
+        for (const chunk of this.chunk(aggregated)) {
+          await client.query(
+            `
+            INSERT INTO player_scores (board_id, player_id, score, aggregation, achieved_at)
+            VALUES ${this.placeholders(chunk.length, 5)}
+            ON CONFLICT (board_id, player_id)
+            DO UPDATE SET
+              score = CASE EXCLUDED.aggregation
+                WHEN 'best' THEN GREATEST(player_scores.score, EXCLUDED.score)
+                WHEN 'minimum' THEN LEAST(player_scores.score, EXCLUDED.score)
+                WHEN 'cumulative' THEN player_scores.score + EXCLUDED.score
+                ELSE CASE WHEN EXCLUDED.achieved_at >= player_scores.achieved_at
+                  THEN EXCLUDED.score ELSE player_scores.score END
+              END,
+              aggregation = EXCLUDED.aggregation,
+              achieved_at = GREATEST(player_scores.achieved_at, EXCLUDED.achieved_at)
+            `,
+            chunk.flatMap((s) => [s.board_id, s.player_id, s.score, s.aggregation, s.timestamp])
+          );
+        }
+      });
+    } finally {
+      client.release();
+    }
+
+    if (alreadySaved) {
+      console.log(`[DB] Batch ${batchId} was already saved; skipping`);
+      return;
+    }
+    console.log(
+      `[DB] Batch saved successfully. Records: ${history.length}, stored scores: ${aggregated.length}`
+    );
+  }
+
+  /**
+   * Failed batches go to the local file queue: the database may be the
+   * reason the batch failed
+   */
+  async saveToDeadLetterQueue(
+    submissions: ScoreSubmission[],
+    errorMessage?: string
+  ): Promise<void> {
+    await this.deadLetterQueue.append(submissions, errorMessage);
+    console.log(`[DB] Saved ${submissions.length} records to dead letter queue`);
+  }
+
+  async getUser(userId: string): Promise<User | null> {
+    const result = await this.pool.query<User>(
+      'SELECT id, username FROM users WHERE id = $1',
+      [userId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  async getUsers(userIds: string[]): Promise<Map<string, User>> {
+    const users = new Map<string, User>();
+    if (userIds.length === 0) {
+      return users;
+    }
+
+    const result = await this.pool.query<User>(
+      'SELECT id, username FROM users WHERE id = ANY($1)',
+      [userIds]
+    );
+    for (const user of result.rows) {
+      users.set(user.id, user);
+    }
+
+    return users;
+  }
+
+  /**
+   * Personal bests are computed over the player's whole history on the
+   * board, so they hold regardless of the requested time range
+   */
+  async getPlayerHistory(
+    boardId: string,
+    playerId: string,
+    query: ScoreHistoryQuery
+  ): Promise<ScoreHistoryPage> {
+    const anchor = query.cursor !== undefined ? this.decodeHistoryCursor(query.cursor) : null;
+
+    const result = await this.pool.query(
+      `
+      SELECT id, score, aggregation, rank_at_submission, timestamp, is_personal_best
+      FROM (
+        SELECT id, score, aggregation, rank_at_submission, timestamp,
+          CASE WHEN aggregation = 'minimum'
+            THEN (score < MIN(score) OVER earlier) IS NOT FALSE
+            ELSE (score > MAX(score) OVER earlier) IS NOT FALSE
+          END AS is_personal_best
+        FROM scores
+        WHERE board_id = $1 AND player_id = $2
+        WINDOW earlier AS (
+          ORDER BY timestamp, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        )
+      ) history
+      WHERE ($3::timestamptz IS NULL OR timestamp >= $3)
+        AND ($4::timestamptz IS NULL OR timestamp <= $4)
+        AND ($5::timestamptz IS NULL OR (timestamp, id) < ($5, $6::bigint))
+      ORDER BY timestamp DESC, id DESC
+      LIMIT $7
+      `,
+      [
+        boardId,
+        playerId,
+        query.from ?? null,
+        query.to ?? null,
+        anchor?.timestamp ?? null,
+        anchor?.id ?? null,
+        // One extra row tells whether another page follows
+        query.limit + 1,
+      ]
+    );
+
+    const rows = result.rows.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      board_id: boardId,
+      player_id: playerId,
+      entries: rows.map((row) => ({
+        score: Number(row.score),
+        timestamp: (row.timestamp as Date).toISOString(),
+        aggregation: row.aggregation as AggregationPolicy,
+        rank_at_submission: row.rank_at_submission,
+        is_personal_best: row.is_personal_best,
+      })),
+      next_cursor:
+        result.rows.length > query.limit
+          ? this.encodeHistoryCursor((last.timestamp as Date).toISOString(), last.id)
+          : null,
+    };
+  }
+
+  async getBoardIds(): Promise<string[]> {
+    const result = await this.pool.query('SELECT DISTINCT board_id FROM scores ORDER BY board_id');
+    return result.rows.map((row) => row.board_id);
+  }
+
+  /**
+   * Keyset pagination over (timestamp, id); ids above the maximum seen at
+   * the start belong to submissions saved during iteration and are skipped
+   */
+  async *streamSubmissions(chunkSize: number): AsyncGenerator<ScoreSubmission[]> {
+    const snapshot = await this.pool.query('SELECT MAX(id) AS max_id FROM scores');
+    const maxId: string | null = snapshot.rows[0].max_id;
+    if (maxId === null) {
+      return;
+    }
+
+    let anchor: { timestamp: Date; id: string } | null = null;
+
+    while (true) {
+      const result: QueryResult = await this.pool.query(
+        `
+        SELECT id, board_id, player_id, score, aggregation, rank_at_submission, timestamp,
+          accepted_at
+        FROM scores
+        WHERE id <= $1
+          AND ($2::timestamptz IS NULL OR (timestamp, id) > ($2, $3::bigint))
+        ORDER BY timestamp, id
+        LIMIT $4
+        `,
+        [maxId, anchor?.timestamp ?? null, anchor?.id ?? null, chunkSize]
+      );
+
+      if (result.rows.length === 0) {
+        return;
+      }
+
+      yield result.rows.map((row) => ({
+        board_id: row.board_id,
+        player_id: row.player_id,
+        score: Number(row.score),
+        aggregation: row.aggregation as AggregationPolicy,
+        rank_at_submission: row.rank_at_submission,
+        timestamp: (row.timestamp as Date).toISOString(),
+        accepted_at: (row.accepted_at as Date).toISOString(),
+      }));
+
+      if (result.rows.length < chunkSize) {
+        return;
+      }
+
+      const last = result.rows[result.rows.length - 1];
+      anchor = { timestamp: last.timestamp, id: last.id };
+    }
+  }
+
+  async saveAdjustment(adjustment: ScoreAdjustment): Promise<void> {
+    await this.pool.query(
+      `
+      INSERT INTO score_adjustments (action, board_id, player_id, score, applied_at)
+      VALUES ($1, $2, $3, $4, $5)
+      `,
+      [
+        adjustment.action,
+        adjustment.board_id,
+        adjustment.player_id,
+        adjustment.score,
+        adjustment.applied_at,
+      ]
+    );
+  }
+
+  async getAdjustments(): Promise<ScoreAdjustment[]> {
+    const result = await this.pool.query(
+      `
+      SELECT action, board_id, player_id, score, applied_at
+      FROM score_adjustments
+      ORDER BY applied_at, id
+      `
+    );
+
+    return result.rows.map((row) => ({
+      action: row.action,
+      board_id: row.board_id,
+      player_id: row.player_id,
+      score: row.score !== null ? Number(row.score) : null,
+      applied_at: (row.applied_at as Date).toISOString(),
+    }));
+  }
+
+  async getStats(): Promise<{
+    totalScores: number;
+    totalPlayers: number;
+    avgScore: number;
+  }> {
+    const result = await this.pool.query(`
+      SELECT COUNT(*) AS total_scores,
+             COUNT(DISTINCT player_id) AS total_players,
+             COALESCE(AVG(score), 0) AS avg_score
+      FROM scores
+    `);
+    const row = result.rows[0];
+
+    return {
+      totalScores: Number(row.total_scores),
+      totalPlayers: Number(row.total_players),
+      avgScore: Number(row.avg_score),
+    };
+  }
+
+  private encodeHistoryCursor(timestamp: string, id: string): string {
+    return Buffer.from(JSON.stringify([timestamp, id])).toString('base64url');
+  }
+
+  private decodeHistoryCursor(cursor: string): { timestamp: string; id: string } {
+    try {
+      const [timestamp, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+
+      if (
+        typeof timestamp === 'string' &&
+        !Number.isNaN(Date.parse(timestamp)) &&
+        typeof id === 'string' &&
+        /^\d+$/.test(id)
+      ) {
+        return { timestamp, id };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+
+    throw new InvalidCursorError();
+  }
+
+  /**
+   * Run work inside BEGIN / COMMIT, rolling back on error
+   */
+  private async inTransaction(client: PoolClient, work: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+      await work();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Placeholder list for a multi-row INSERT: ($1, $2), ($3, $4), ...
+   */
+  private placeholders(rows: number, columns: number): string {
+    return Array.from(
+      { length: rows },
+      (_, row) =>
+        `(${Array.from({ length: columns }, (_, column) => `$${row * columns + column + 1}`).join(', ')})`
+    ).join(', ');
+  }
+
+  private chunk<T>(items: T[]): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += this.INSERT_CHUNK_SIZE) {
+      chunks.push(items.slice(i, i + this.INSERT_CHUNK_SIZE));
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,175 @@
+import { QuarantinedSubmission, RuleViolation, ScoreSubmission, ScoreUpdateResult } from '../types';
+import { RedisService } from './RedisService';
+import { TimeWindowService } from './TimeWindowService';
+import { v4 as uuidv4 } from 'uuid';
+
+export class QuarantineNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Quarantined submission ${id} not found`);
+    this.name = 'QuarantineNotFoundError';
+  }
+}
+
+export class QuarantineNotPendingError extends Error {
+  constructor(id: string) {
+    super(`Quarantined submission ${id} was already reviewed`);
+    this.name = 'QuarantineNotPendingError';
+  }
+}
+
+export class QuarantinedPlayerBannedError extends Error {
+  constructor(playerId: string) {
+    super(`Player ${playerId} is banned; the submission can only be rejected`);
+    this.name = 'QuarantinedPlayerBannedError';
+  }
+}
+
+/**
+ * Holds suspicious submissions away from the live board until an admin
+ * approves them (they are then applied like a regular submission) or
+ * rejects them
+ */
+export class QuarantineService {
+  private redisService: RedisService;
+  private timeWindowService: TimeWindowService;
+  private readonly retentionSeconds: number;
+  private readonly maxReviewAttempts = 3;
+  private readonly reviewRetryDelayMs = 200;
+
+  constructor(
+    redisService: RedisService,
+    timeWindowService: TimeWindowService,
+    retentionSeconds: number = 30 * 24 * 60 * 60
+  ) {
+    this.redisService = redisService;
+    this.timeWindowService = timeWindowService;
+    this.retentionSeconds = retentionSeconds;
+  }
+
+  async quarantine(
+    submission: ScoreSubmission,
+    violations: RuleViolation[]
+  ): Promise<QuarantinedSubmission> {
+    const entry: QuarantinedSubmission = {
+      id: uuidv4(),
+      status: 'pending',
+      submission,
+      violations,
+      created_at: new Date().toISOString(),
+      reviewed_at: null,
+    };
+
+    await this.redisService.addQuarantined(entry);
+    console.log(
+      `[Quarantine] Held submission ${entry.id} of player ${submission.player_id} on board ${submission.board_id}:`,
+      violations.map((v) => v.rule).join(', ')
+    );
+
+    return entry;
+  }
+
+  /**
+   * Get the oldest submissions awaiting review
+   */
+  async listPending(limit: number): Promise<{ entries: QuarantinedSubmission[]; total: number }> {
+    return await this.redisService.getPendingQuarantined(limit);
+  }
+
+  async get(id: string): Promise<QuarantinedSubmission> {
+    const entry = await this.redisService.getQuarantined(id);
+    if (!entry) {
+      throw new QuarantineNotFoundError(id);
+    }
+    return entry;
+  }
+
+  /**
+   * Apply a pending submission to the board and queue it for persistence.
+   * It ranks as achieved at its timestamp, and only the daily/weekly/monthly
+   * periods containing the time it was received that are still open are
+   * updated. Submissions of players banned meanwhile are refused.
+   */
+  async approve(id: string): Promise<{ entry: QuarantinedSubmission; result: ScoreUpdateResult }> {
+    const pending = await this.get(id);
+    if (await this.redisService.getBan(pending.submission.player_id)) {
+      throw new QuarantinedPlayerBannedError(pending.submission.player_id);
+    }
+
+    const entry = await this.claim(id);
+    const { submission } = entry;
+
+    let result: ScoreUpdateResult;
+    try {
+      const acceptedAt = Date.parse(submission.accepted_at ?? entry.created_at);
+      result = await this.redisService.addScore(
+        submission.board_id,
+        submission.player_id,
+        submission.score,
+        Date.parse(submission.timestamp),
+        acceptedAt,
+        submission.aggregation,
+        this.timeWindowService.getActivePeriodsContaining(acceptedAt),
+        submission
+      );
+    } catch (error) {
+      await this.redisService.unclaimQuarantined(entry);
+      throw error;
+    }
+
+    // The score is on the board now, so the entry has to end up approved
+    let attempt = 1;
+    while (true) {
+      try {
+        const reviewed = await this.review(entry, 'approved');
+        return { entry: reviewed, result };
+      } catch (error) {
+        if (attempt >= this.maxReviewAttempts) {
+          console.error(
+            `[Quarantine] Submission ${entry.id} was applied but could not be marked approved:`,
+            error
+          );
+          return {
+            entry: { ...entry, status: 'approved', reviewed_at: new Date().toISOString() },
+            result,
+          };
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.reviewRetryDelayMs * Math.pow(2, attempt - 1))
+        );
+        attempt++;
+      }
+    }
+  }
+
+  /**
+   * Discard a pending submission
+   */
+  async reject(id: string): Promise<QuarantinedSubmission> {
+    const entry = await this.claim(id);
+    return await this.review(entry, 'rejected');
+  }
+
+  private async claim(id: string): Promise<QuarantinedSubmission> {
+    const entry = await this.get(id);
+    if (entry.status !== 'pending' || !(await this.redisService.claimQuarantined(id))) {
+      throw new QuarantineNotPendingError(id);
+    }
+    return entry;
+  }
+
+  private async review(
+    entry: QuarantinedSubmission,
+    status: 'approved' | 'rejected'
+  ): Promise<QuarantinedSubmission> {
+    const reviewed: QuarantinedSubmission = {
+      ...entry,
+      status,
+      reviewed_at: new Date().toISOString(),
+    };
+
+    await this.redisService.saveReviewedQuarantined(reviewed, this.retentionSeconds);
+    console.log(`[Quarantine] Submission ${entry.id} ${status}`);
+
+    return reviewed;
+  }
+}
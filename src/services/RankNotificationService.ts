@@ -0,0 +1,142 @@
+import { RedisService } from './RedisService';
+import { WebSocketService } from './WebSocketService';
+import { LeaderboardChange } from '../types';
+
+/**
+ * Personal rank notifications for players identified on this instance's
+ * WebSocket connections, wherever they stand on a board.
+ *
+ * Each score change is compared against only the players it moved past:
+ * those placed strictly between the mover's old and new position, with
+ * equal scores ranked by who reached them first. The mover hears its new
+ * rank, the passed players that they were overtaken (or moved up, when the
+ * mover's score went down), and anyone crossing into the top N is told so.
+ */
+export class RankNotificationService {
+  private redisService: RedisService;
+  private wsService: WebSocketService;
+  private readonly topN: number;
+
+  constructor(redisService: RedisService, wsService: WebSocketService, topN: number = 10) {
+    this.redisService = redisService;
+    this.wsService = wsService;
+    this.topN = topN;
+  }
+
+  async processScoreChange(change: LeaderboardChange): Promise<void> {
+    const { board_id: boardId, player_id: playerId, score, previous_score: previousScore } = change;
+    const identified = this.wsService.getIdentifiedPlayers();
+
+    if (identified.length === 0 || score === previousScore) {
+      return;
+    }
+
+    const newRank = await this.redisService.getPlayerRank(boardId, playerId);
+    if (newRank === null) {
+      return;
+    }
+
+    const improved = previousScore === null || score > previousScore;
+    const passedCount = await this.redisService.countPassedPlayers(change);
+
+    if (this.wsService.isPlayerConnected(playerId)) {
+      const oldRank =
+        previousScore === null ? null : improved ? newRank + passedCount : newRank - passedCount;
+      this.notifyRankChange(playerId, boardId, oldRank, newRank, change.timestamp, {
+        type: 'rank_changed',
+        data: {
+          board_id: boardId,
+          old_rank: oldRank,
+          new_rank: newRank,
+          score,
+          previous_score: previousScore,
+          timestamp: change.timestamp,
+        },
+      });
+    }
+
+    if (passedCount === 0) {
+      return;
+    }
+
+    // Look up whichever is smaller: the passed players, or the identified
+    // ones
+    const candidates =
+      passedCount <= identified.length
+        ? (await this.redisService.getPassedPlayers(change)).filter((candidate) =>
+            this.wsService.isPlayerConnected(candidate)
+          )
+        : identified;
+
+    const entries = await this.redisService.getPassedEntries(change, candidates);
+
+    for (const entry of entries) {
+      // Passed players fell one place, or rose one when the mover fell
+      const oldRank = improved ? entry.rank - 1 : entry.rank + 1;
+      const message = improved
+        ? {
+            type: 'overtaken',
+            data: {
+              board_id: boardId,
+              by_player_id: playerId,
+              by_score: score,
+              your_score: entry.score,
+              old_rank: oldRank,
+              new_rank: entry.rank,
+              timestamp: change.timestamp,
+            },
+          }
+        : {
+            type: 'rank_changed',
+            data: {
+              board_id: boardId,
+              old_rank: oldRank,
+              new_rank: entry.rank,
+              score: entry.score,
+              previous_score: entry.score,
+              timestamp: change.timestamp,
+            },
+          };
+
+      this.notifyRankChange(
+        entry.player_id,
+        boardId,
+        oldRank,
+        entry.rank,
+        change.timestamp,
+        message
+      );
+    }
+  }
+
+  /**
+   * Send a player's notification, followed by entered_top when the new
+   * rank crossed into the top N
+   */
+  private notifyRankChange(
+    playerId: string,
+    boardId: string,
+    oldRank: number | null,
+    newRank: number,
+    timestamp: number,
+    message: { type: string; data: Record<string, unknown> }
+  ): void {
+    if (oldRank === newRank) {
+      return;
+    }
+
+    this.wsService.sendToPlayer(playerId, message);
+
+    if (newRank <= this.topN && (oldRank === null || oldRank > this.topN)) {
+      this.wsService.sendToPlayer(playerId, {
+        type: 'entered_top',
+        data: {
+          board_id: boardId,
+          top: this.topN,
+          rank: newRank,
+          timestamp,
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  Principal,
+  RateLimitBucket,
+  RateLimitCallerClass,
+  RateLimitConfig,
+  RateLimitDecision,
+  RateLimitRoute,
+  RATE_LIMIT_CALLER_CLASSES,
+  RATE_LIMIT_ROUTES,
+} from '../types';
+import { RedisService } from './RedisService';
+import Joi from 'joi';
+
+/**
+ * Limits used unless RATE_LIMITS overrides them
+ */
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  submit: {
+    player: { limit: 30, window_seconds: 60 },
+    key: { limit: 6000, window_seconds: 60 },
+    ip: { limit: 120, window_seconds: 60 },
+  },
+  read: {
+    key: { limit: 6000, window_seconds: 60 },
+    ip: { limit: 600, window_seconds: 60 },
+  },
+  admin: {
+    key: { limit: 60, window_seconds: 60 },
+    ip: { limit: 30, window_seconds: 60 },
+  },
+};
+
+const rateLimitSchema = Joi.object({
+  limit: Joi.number().integer().min(1).required(),
+  window_seconds: Joi.number().integer().min(1).required(),
+}).allow(null);
+
+// Shape of RATE_LIMITS; null turns a limit off
+const rateLimitsSchema = Joi.object(
+  Object.fromEntries(
+    RATE_LIMIT_ROUTES.map((route) => [
+      route,
+      Joi.object(
+        Object.fromEntries(
+          RATE_LIMIT_CALLER_CLASSES.map((callerClass) => [callerClass, rateLimitSchema])
+        )
+      ),
+    ])
+  )
+);
+
+/**
+ * Parse the RATE_LIMITS configuration and apply it over the defaults, e.g.
+ * {"submit": {"player": {"limit": 10, "window_seconds": 60}, "ip": null}}
+ */
+export function parseRateLimits(json: string | undefined): RateLimitConfig {
+  const config: RateLimitConfig = {
+    submit: { ...DEFAULT_RATE_LIMITS.submit },
+    read: { ...DEFAULT_RATE_LIMITS.read },
+    admin: { ...DEFAULT_RATE_LIMITS.admin },
+  };
+  if (!json) {
+    return config;
+  }
+
+  const { error, value } = rateLimitsSchema.validate(JSON.parse(json));
+  if (error) {
+    throw new Error(`Invalid RATE_LIMITS: ${error.message}`);
+  }
+
+  for (const [route, limits] of Object.entries(value)) {
+    for (const [callerClass, limit] of Object.entries(limits as object)) {
+      const routeLimits = config[route as RateLimitRoute];
+      if (limit === null) {
+        delete routeLimits[callerClass as RateLimitCallerClass];
+      } else {
+        routeLimits[callerClass as RateLimitCallerClass] = limit;
+      }
+    }
+  }
+  return config;
+}
+
+/**
+ * Distributed rate limiting shared by all instances through Redis token
+ * buckets.
+ *
+ * A request is counted against its caller: the API key or JWT subject when
+ * authenticated, the client IP otherwise. Submissions are also counted
+ * against the submitting player, so one player cannot flood a board through
+ * a shared game server key.
+ */
+export class RateLimitService {
+  private redisService: RedisService;
+  private config: RateLimitConfig;
+
+  constructor(redisService: RedisService, config: RateLimitConfig = DEFAULT_RATE_LIMITS) {
+    this.redisService = redisService;
+    this.config = config;
+  }
+
+  /**
+   * Count a request against its limits. Returns null when none apply.
+   */
+  async check(
+    route: RateLimitRoute,
+    caller: { principal?: Principal; ip: string; playerId?: string }
+  ): Promise<RateLimitDecision | null> {
+    const limits = this.config[route];
+    const buckets: RateLimitBucket[] = [];
+
+    const addBucket = (callerClass: RateLimitCallerClass, id: string) => {
+      const limit = limits[callerClass];
+      if (limit) {
+        buckets.push({
+          key: `${route}:${callerClass}:${id}`,
+          limit: limit.limit,
+          windowSeconds: limit.window_seconds,
+        });
+      }
+    };
+
+    if (caller.principal?.authenticated) {
+      addBucket('key', caller.principal.id);
+    } else {
+      addBucket('ip', caller.ip);
+    }
+    if (caller.playerId !== undefined) {
+      addBucket('player', caller.playerId);
+    }
+
+    if (buckets.length === 0) {
+      return null;
+    }
+
+    const { allowed, buckets: states } = await this.redisService.consumeRateLimits(buckets);
+
+    // Report the bucket that denied the request for longest, or the one
+    // with the fewest tokens left
+    let reported = 0;
+    for (let i = 1; i < states.length; i++) {
+      const isMoreConstrained = allowed
+        ? states[i].remaining < states[reported].remaining
+        : states[i].retryAfterMs > states[reported].retryAfterMs;
+      if (isMoreConstrained) {
+        reported = i;
+      }
+    }
+
+    return {
+      allowed,
+      limit: buckets[reported].limit,
+      remaining: states[reported].remaining,
+      resetSeconds: Math.ceil(states[reported].resetMs / 1000),
+      retryAfterSeconds: Math.ceil(states[reported].retryAfterMs / 1000),
+    };
+  }
+}
@@ -0,0 +1,323 @@
+import {
+  ActiveWindowPeriod,
+  AggregationPolicy,
+  RebuildStatus,
+  ScoreAdjustment,
+  ScoreSubmission,
+} from '../types';
+import { RedisService, ScoreOutOfRangeError } from './RedisService';
+import { DatabaseService } from './DatabaseService';
+import { TimeWindowService } from './TimeWindowService';
+
+export class RebuildInProgressError extends Error {
+  constructor() {
+    super('A leaderboard rebuild is already running');
+    this.name = 'RebuildInProgressError';
+  }
+}
+
+/**
+ * Moderation changes to apply during a replay: the time of the latest
+ * change to each board and player (null for all of them), before which
+ * submissions were removed, and the overrides still in effect, replayed
+ * ahead of the player's next submission
+ */
+interface Adjustments {
+  cutoffs: Map<string, number>;
+  overrides: Map<string, ScoreSubmission>;
+}
+
+/**
+ * Restores Redis leaderboards from the persisted score history, e.g. after
+ * the Redis instance was flushed or replaced. Submissions are replayed
+ * oldest first through the same script as live submissions, so each
+ * board's aggregation policy and tie-breaking apply unchanged. The replay
+ * builds copies of the boards, which replace them in one step once it
+ * completes; reads are served from the current boards meanwhile and the
+ * status reports "rebuilding". Recorded moderation changes are applied
+ * again at the time they were made.
+ */
+export class RebuildService {
+  private redisService: RedisService;
+  private dbService: DatabaseService;
+  private timeWindowService: TimeWindowService;
+  private readonly instanceId: string;
+  private readonly chunkSize: number;
+  // Renewed after every chunk, so a crashed rebuild frees the lock quickly
+  private readonly LOCK_TTL_SECONDS = 300;
+
+  constructor(
+    redisService: RedisService,
+    dbService: DatabaseService,
+    timeWindowService: TimeWindowService,
+    instanceId: string,
+    chunkSize: number = 1000
+  ) {
+    this.redisService = redisService;
+    this.dbService = dbService;
+    this.timeWindowService = timeWindowService;
+    this.instanceId = instanceId;
+    this.chunkSize = chunkSize;
+  }
+
+  /**
+   * Get the progress of the current or last rebuild
+   */
+  async getStatus(): Promise<RebuildStatus> {
+    const status = await this.redisService.getRebuildStatus();
+
+    return (
+      status ?? {
+        state: 'idle',
+        started_at: null,
+        finished_at: null,
+        boards: [],
+        processed: 0,
+        skipped: 0,
+        error: null,
+      }
+    );
+  }
+
+  /**
+   * Whether Redis holds no boards at all, as after a flush or on a new instance
+   */
+  async isRedisEmpty(): Promise<boolean> {
+    const boards = await this.redisService.getBoards();
+    return boards.length === 0;
+  }
+
+  /**
+   * Start a rebuild in the background. Resolves once the rebuild has
+   * started; throws RebuildInProgressError if one is already running on
+   * any instance.
+   */
+  async start(): Promise<RebuildStatus> {
+    const acquired = await this.redisService.acquireRebuildLock(
+      this.instanceId,
+      this.LOCK_TTL_SECONDS
+    );
+    if (!acquired) {
+      throw new RebuildInProgressError();
+    }
+
+    const status: RebuildStatus = {
+      state: 'rebuilding',
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      boards: [],
+      processed: 0,
+      skipped: 0,
+      error: null,
+    };
+    await this.redisService.setRebuildStatus(status);
+
+    this.run(status).catch((error) =>
+      console.error('[Rebuild] Failed to record rebuild failure:', error)
+    );
+
+    return status;
+  }
+
+  private async run(status: RebuildStatus): Promise<void> {
+    // Only the current daily/weekly/monthly periods are restored: closed
+    // periods would expire as soon as they were written
+    const activePeriods = this.timeWindowService.getActivePeriods();
+
+    try {
+      console.log('[Rebuild] Rebuilding leaderboards from the database...');
+
+      // A ban that removed the player's scores was recorded as a removal,
+      // which is replayed like the other moderation changes
+      const adjustments = this.loadAdjustments(await this.dbService.getAdjustments());
+
+      // Copies left behind by an interrupted rebuild are started over
+      status.boards = await this.dbService.getBoardIds();
+      await this.redisService.discardRebuiltBoards(
+        await this.boardsIncluding(status.boards),
+        activePeriods
+      );
+
+      // From here on live submissions also reach the copies, so the replay
+      // only needs those accepted before
+      const since = await this.redisService.beginRebuildCopies(this.LOCK_TTL_SECONDS);
+      await this.redisService.setRebuildStatus(status);
+
+      // A board's latest submission carries its most recent configuration
+      const policies = new Map<string, AggregationPolicy>();
+
+      for await (const chunk of this.dbService.streamSubmissions(this.chunkSize)) {
+        await this.replay(chunk, activePeriods, adjustments, since, status);
+        chunk.forEach((submission) => policies.set(submission.board_id, submission.aggregation));
+        if (!(await this.redisService.extendRebuildLock(this.instanceId, this.LOCK_TTL_SECONDS))) {
+          throw new Error('The rebuild lock expired and was claimed by another instance');
+        }
+        await this.redisService.setRebuildStatus(status);
+        console.log(`[Rebuild] Replayed ${status.processed} submissions`);
+      }
+
+      // Overrides of players without later submissions
+      const overrides = Array.from(adjustments.overrides.values());
+      adjustments.overrides.clear();
+      await this.replay(overrides, activePeriods, adjustments, since, status);
+
+      // Configurations that survived in Redis are kept
+      for (const [boardId, aggregation] of policies) {
+        await this.redisService.restoreBoardConfig({ board_id: boardId, aggregation });
+      }
+
+      // Boards persisted nowhere yet keep their live leaderboards
+      await this.redisService.swapInRebuiltBoards(status.boards, activePeriods);
+      const liveOnly = (await this.boardsIncluding([])).filter(
+        (boardId) => !status.boards.includes(boardId)
+      );
+      await this.redisService.discardRebuiltBoards(liveOnly, activePeriods);
+
+      status.state = 'completed';
+      console.log(
+        `[Rebuild] Rebuilt ${status.boards.length} boards from ${status.processed} submissions (${status.skipped} skipped)`
+      );
+    } catch (error) {
+      status.state = 'failed';
+      status.error = error instanceof Error ? error.message : String(error);
+      console.error('[Rebuild] Rebuild failed:', error);
+      await this.redisService.discardRebuiltBoards(
+        await this.boardsIncluding(status.boards),
+        activePeriods
+      );
+    } finally {
+      status.finished_at = new Date().toISOString();
+      await this.redisService.setRebuildStatus(status);
+      await this.redisService.releaseRebuildLock(this.instanceId);
+    }
+  }
+
+  /**
+   * The given boards together with every board Redis knows
+   */
+  private async boardsIncluding(boardIds: string[]): Promise<string[]> {
+    return Array.from(new Set([...boardIds, ...(await this.redisService.getBoards())]));
+  }
+
+  /**
+   * Index moderation changes by what they applied to. An override becomes
+   * a submission under the latest policy, so it replaces the player's score
+   * on the boards of its periods; overrides removed or overridden again
+   * later are dropped.
+   */
+  private loadAdjustments(changes: ScoreAdjustment[]): Adjustments {
+    const cutoffs = new Map<string, number>();
+    changes.forEach((change) => {
+      const key = this.adjustmentKey(change.board_id, change.player_id);
+      cutoffs.set(key, Math.max(cutoffs.get(key) ?? 0, Date.parse(change.applied_at)));
+    });
+
+    const overrides = new Map<string, ScoreSubmission>();
+    changes.forEach((change) => {
+      if (
+        change.action !== 'override' ||
+        change.board_id === null ||
+        change.player_id === null ||
+        change.score === null ||
+        Date.parse(change.applied_at) < this.cutoff(cutoffs, change.board_id, change.player_id)
+      ) {
+        return;
+      }
+
+      overrides.set(this.adjustmentKey(change.board_id, change.player_id), {
+        board_id: change.board_id,
+        player_id: change.player_id,
+        score: change.score,
+        timestamp: change.applied_at,
+        accepted_at: change.applied_at,
+        aggregation: 'latest',
+      });
+    });
+
+    return { cutoffs, overrides };
+  }
+
+  private adjustmentKey(boardId: string | null, playerId: string | null): string {
+    return JSON.stringify([boardId, playerId]);
+  }
+
+  /**
+   * Time of the latest moderation change to the player's score on the board
+   */
+  private cutoff(cutoffs: Map<string, number>, boardId: string, playerId: string): number {
+    return Math.max(
+      cutoffs.get(this.adjustmentKey(boardId, playerId)) ?? 0,
+      cutoffs.get(this.adjustmentKey(boardId, null)) ?? 0,
+      cutoffs.get(this.adjustmentKey(null, playerId)) ?? 0
+    );
+  }
+
+  /**
+   * Apply a chunk of submissions. Commands are pipelined and Redis runs
+   * them in order, so a player's submissions keep their sequence.
+   */
+  private async replay(
+    chunk: ScoreSubmission[],
+    activePeriods: ActiveWindowPeriod[],
+    adjustments: Adjustments,
+    since: number,
+    status: RebuildStatus
+  ): Promise<void> {
+    const submissions: ScoreSubmission[] = [];
+    chunk.forEach((submission) => {
+      // Removed or overridden by a moderator since
+      const acceptedAt = Date.parse(submission.accepted_at ?? submission.timestamp);
+      if (
+        acceptedAt < this.cutoff(adjustments.cutoffs, submission.board_id, submission.player_id)
+      ) {
+        status.skipped++;
+        return;
+      }
+
+      const key = this.adjustmentKey(submission.board_id, submission.player_id);
+      const override = adjustments.overrides.get(key);
+      if (override) {
+        submissions.push(override);
+        adjustments.overrides.delete(key);
+      }
+      submissions.push(submission);
+    });
+
+    await Promise.all(
+      submissions.map(async (submission) => {
+        // Submissions accepted since the rebuild began reached the copies live
+        const acceptedAt = Date.parse(submission.accepted_at ?? submission.timestamp);
+        if (acceptedAt >= since) {
+          status.processed++;
+          return;
+        }
+
+        const periods = activePeriods.filter(
+          (active) =>
+            this.timeWindowService.getPeriodAt(active.window, acceptedAt).period === active.period
+        );
+
+        try {
+          await this.redisService.addRebuiltScore(
+            submission.board_id,
+            submission.player_id,
+            submission.score,
+            Date.parse(submission.timestamp),
+            acceptedAt,
+            submission.aggregation,
+            periods
+          );
+          status.processed++;
+        } catch (error) {
+          if (!(error instanceof ScoreOutOfRangeError)) {
+            throw error;
+          }
+          status.skipped++;
+          console.warn(
+            `[Rebuild] Skipped submission of player ${submission.player_id} on board ${submission.board_id}: ${error.message}`
+          );
+        }
+      })
+    );
+  }
+}
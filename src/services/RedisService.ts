@@ -1,12 +1,472 @@
-import { createClient, RedisClientType } from 'redis';
-import { LeaderboardEntry, LeaderboardUpdate } from '../types';
+import { commandOptions, createClient, RedisClientType } from 'redis';
+import {
+  ActiveWindowPeriod,
+  AggregationPolicy,
+  BoardConfig,
+  IdempotencyRecord,
+  QuarantinedSubmission,
+  AuditEntry,
+  PlayerBan,
+  RateLimitBucket,
+  RateLimitBucketState,
+  DEFAULT_AGGREGATION_POLICY,
+  LeaderboardChange,
+  LeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardUpdate,
+  LeaderboardBroadcast,
+  OutboxEntry,
+  RebuildStatus,
+  ScoreSubmission,
+  ScoreUpdateResult,
+  TimeWindow,
+  WindowPeriod,
+} from '../types';
+
+/**
+ * Sorted set scores carry the achievement time as a fraction, so that
+ * equal scores rank by who reached them first:
+ *
+ *   encoded = score + tiebreak / TIE_RANGE
+ *   tiebreak = TIE_RANGE - 1 - seconds since TIEBREAK_EPOCH
+ *
+ * Earlier achievements get a larger fraction and therefore rank higher.
+ * The fraction is kept to the precision the score's magnitude leaves in a
+ * double: whole seconds below 2^23, halving with every further bit, so
+ * ties between very large scores are told apart more coarsely (and then by
+ * player id). Members without a fraction, as written before tie-breaking,
+ * read as their plain score with no achievement time.
+ */
+const TIE_RANGE = 2 ** 30; // ~34 years of seconds
+const TIEBREAK_EPOCH_MS = Date.UTC(2024, 0, 1);
+
+/**
+ * Largest score a board can store
+ */
+export const MAX_SCORE = Number.MAX_SAFE_INTEGER;
+
+/**
+ * How long a period's leaderboard outlives the period unless it is
+ * archived, so that the rollover job can still archive it after downtime
+ */
+export const WINDOW_GRACE_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Lua helpers shared by the scripts that write scores. encode() adds a
+ * tiebreak to a score, dropping the low bits of the tiebreak that the
+ * double cannot hold next to the score; tiebreakOf() reads it back.
+ */
+const ENCODING_LUA = `
+local function encode(score, tiebreak, range)
+  local quantum = 1
+  while score * range / quantum >= 9007199254740992 do
+    quantum = quantum * 2
+  end
+  return score + math.floor(tiebreak / quantum) * quantum / range
+end
+
+local function tiebreakOf(encoded, range)
+  return (encoded - math.floor(encoded)) * range
+end
+`;
+
+/**
+ * Lua helper for the running score sums. Sorted sets written before the
+ * sums were kept have none; ensureSum() computes it from the set the first
+ * time such a set is touched, before the caller applies its change.
+ */
+const SUM_LUA = `
+local function ensureSum(leaderboard, stats)
+  if redis.call('HEXISTS', stats, 'sum') == 1 then
+    return
+  end
+  local sum = 0
+  local offset = 0
+  repeat
+    local page = redis.call('ZRANGE', leaderboard, offset, offset + 999, 'WITHSCORES')
+    for j = 2, #page, 2 do
+      sum = sum + math.floor(tonumber(page[j]))
+    end
+    offset = offset + 1000
+  until #page < 2000
+  redis.call('HSET', stats, 'sum', string.format('%.0f', sum))
+end
+`;
+
+export class ScoreOutOfRangeError extends Error {
+  constructor(score: number) {
+    super(`Stored score ${score} would exceed the maximum of ${MAX_SCORE}`);
+    this.name = 'ScoreOutOfRangeError';
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Malformed pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+interface PageCursor {
+  direction: 'next' | 'prev';
+  // Encoded sorted set score and member of the anchor entry
+  score: number;
+  playerId: string;
+}
+
+/**
+ * Removes a player from sorted sets and subtracts their stored score from
+ * each set's running sum.
+ *
+ * KEYS[1+], [2+]  leaderboards and their stats hashes, in pairs
+ * ARGV            player id
+ *
+ * Returns the score removed from the first leaderboard, or false if the
+ * player was not on it.
+ */
+const REMOVE_PLAYER_SCRIPT = `${SUM_LUA}
+local removed = false
+
+for i = 1, #KEYS, 2 do
+  local current = redis.call('ZSCORE', KEYS[i], ARGV[1])
+  if current then
+    local score = math.floor(tonumber(current))
+    ensureSum(KEYS[i], KEYS[i + 1])
+    redis.call('ZREM', KEYS[i], ARGV[1])
+    redis.call('HINCRBYFLOAT', KEYS[i + 1], 'sum', string.format('%.0f', -score))
+    if i == 1 then
+      removed = score
+    end
+  end
+end
+
+return removed
+`;
+
+/**
+ * Overrides a player's stored score, bypassing the board's aggregation
+ * policy, on the first leaderboard and on each further one that already
+ * ranks the player. Each entry keeps its achievement time.
+ *
+ * KEYS[1+], [2+]  leaderboards and their stats hashes, in pairs
+ * ARGV            player id, score, tie range
+ *
+ * Returns the previous score on the first leaderboard, or false (nothing
+ * is written) if the player was not on it.
+ */
+const SET_SCORE_SCRIPT = `${ENCODING_LUA}${SUM_LUA}
+local member = ARGV[1]
+local score = tonumber(ARGV[2])
+local tieRange = tonumber(ARGV[3])
+local previous = false
+
+for i = 1, #KEYS, 2 do
+  local current = redis.call('ZSCORE', KEYS[i], member)
+  if not current then
+    if i == 1 then
+      return false
+    end
+  else
+    current = tonumber(current)
+    local currentScore = math.floor(current)
+    if i == 1 then
+      previous = currentScore
+    end
+    local encoded = encode(score, tiebreakOf(current, tieRange), tieRange)
+    ensureSum(KEYS[i], KEYS[i + 1])
+    redis.call('ZADD', KEYS[i], string.format('%.17g', encoded), member)
+    redis.call('HINCRBYFLOAT', KEYS[i + 1], 'sum', string.format('%.0f', score - currentScore))
+  end
+end
+
+return previous
+`;
+
+/**
+ * Applies a submission to the all-time key and each period key using the
+ * board's aggregation policy. When the stored score does not change, its
+ * original achievement time is kept. Each sorted set has a stats hash whose
+ * 'sum' field tracks the total of its stored scores. When a submission
+ * payload is given, it is added to the outbox stream in the same atomic
+ * step, together with the outcome and the all-time sorted set scores before
+ * and after, for relaying to Kafka. While a rebuild runs, submissions
+ * accepted since it started are also applied to the copies it is
+ * building, which the replay leaves out.
+ *
+ * KEYS[1]          board index set
+ * KEYS[2]          outbox stream
+ * KEYS[3]          rebuild marker, holding the rebuild's start (unix ms)
+ * KEYS[4+], [5+]   all-time and period leaderboards with their stats hashes,
+ *                  in pairs, optionally followed by the same for the copies
+ *                  being rebuilt
+ * ARGV             board id, player id, score, tiebreak, policy, tie range,
+ *                  max score, submission JSON (empty to skip the outbox),
+ *                  now (unix ms), when the submission was first accepted
+ *                  (unix ms), then one expire-at (unix seconds) per period
+ *
+ * Returns { previous score or false, stored score, rank } of the all-time
+ * key, or an error reply starting with SCORE_OUT_OF_RANGE.
+ */
+const ADD_SCORE_SCRIPT = `${ENCODING_LUA}${SUM_LUA}
+local boardId = ARGV[1]
+local member = ARGV[2]
+local score = tonumber(ARGV[3])
+local tie = tonumber(ARGV[4])
+local policy = ARGV[5]
+local range = tonumber(ARGV[6])
+local maxScore = tonumber(ARGV[7])
+local submission = ARGV[8]
+local acceptedAt = ARGV[9]
+local submittedAt = tonumber(ARGV[10])
+-- Leaderboards per copy: the all-time one and one per period
+local boards = #ARGV - 9
+
+local copies = 1
+if #KEYS - 3 > 2 * boards then
+  local since = redis.call('GET', KEYS[3])
+  if since and submittedAt >= tonumber(since) then
+    copies = 2
+  end
+end
+
+local writes = {}
+local result = nil
+local previousSort = ''
+
+for j = 1, copies * boards do
+  local i = 2 + 2 * j
+  local current = redis.call('ZSCORE', KEYS[i], member)
+  local stored = score
+  local storedTie = tie
+  local previous = false
+
+  if current then
+    current = tonumber(current)
+    local currentScore = math.floor(current)
+    previous = currentScore
+
+    if policy == 'best' then
+      stored = math.max(currentScore, score)
+    elseif policy == 'minimum' then
+      stored = math.min(currentScore, score)
+    elseif policy == 'cumulative' then
+      stored = currentScore + score
+    end
+
+    if stored == currentScore then
+      storedTie = tiebreakOf(current, range)
+    end
+  end
+
+  if stored > maxScore or stored < 0 then
+    return redis.error_reply('SCORE_OUT_OF_RANGE ' .. string.format('%.0f', stored))
+  end
+
+  writes[j] = {
+    string.format('%.17g', encode(stored, storedTie, range)),
+    stored - (previous or 0),
+  }
+  if j == 1 then
+    result = { previous and string.format('%.0f', previous) or false, string.format('%.0f', stored) }
+    previousSort = current and string.format('%.17g', current) or ''
+  end
+end
+
+for j = 1, copies * boards do
+  local i = 2 + 2 * j
+  ensureSum(KEYS[i], KEYS[i + 1])
+  redis.call('ZADD', KEYS[i], writes[j][1], member)
+  redis.call('HINCRBYFLOAT', KEYS[i + 1], 'sum', string.format('%.0f', writes[j][2]))
+  local period = (j - 1) % boards
+  if period > 0 then
+    local expireAt = ARGV[10 + period]
+    redis.call('EXPIREAT', KEYS[i], expireAt)
+    redis.call('EXPIREAT', KEYS[i + 1], expireAt)
+  end
+end
+
+redis.call('SADD', KEYS[1], boardId)
+result[3] = redis.call('ZREVRANK', KEYS[4], member) + 1
+
+if submission ~= '' then
+  redis.call('XADD', KEYS[2], '*',
+    'submission', submission,
+    'previous', result[1] or '',
+    'stored', result[2],
+    'rank', result[3],
+    'accepted_at', acceptedAt,
+    'previous_sort', previousSort,
+    'stored_sort', writes[1][1])
+end
+
+return result
+`;
+
+/**
+ * Replaces leaderboards with the copies a rebuild built, in one step, and
+ * ends the rebuild. A leaderboard without a copy is deleted.
+ *
+ * KEYS[1]          rebuild marker
+ * KEYS[2+], [3+]   copies and the leaderboards (or stats hashes) they
+ *                  replace, in pairs
+ */
+const SWAP_REBUILT_SCRIPT = `
+for i = 2, #KEYS, 2 do
+  if redis.call('EXISTS', KEYS[i]) == 1 then
+    redis.call('RENAME', KEYS[i], KEYS[i + 1])
+  else
+    redis.call('DEL', KEYS[i + 1])
+  end
+end
+
+redis.call('DEL', KEYS[1])
+return true
+`;
+
+/**
+ * Releases or renews the rebuild lock, if the caller still holds it.
+ *
+ * KEYS[1]  rebuild lock
+ * KEYS[2]  rebuild marker, renewed with the lock
+ * ARGV     owner, then a TTL in seconds to renew, or nothing to release
+ *
+ * Returns 1 if the lock was held by the owner, 0 otherwise.
+ */
+const REBUILD_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+
+if ARGV[2] then
+  redis.call('EXPIRE', KEYS[1], ARGV[2])
+  redis.call('EXPIRE', KEYS[2], ARGV[2])
+else
+  redis.call('DEL', KEYS[1])
+end
+return 1
+`;
+
+/**
+ * Makes a caller the owner of a new group. Groups that already have
+ * members but no owner, as created before owners were recorded, stay
+ * unowned.
+ *
+ * KEYS[1]  group owner
+ * KEYS[2]  group members
+ * ARGV[1]  caller
+ *
+ * Returns the group's owner, or false if it has none.
+ */
+const CLAIM_GROUP_SCRIPT = `
+local owner = redis.call('GET', KEYS[1])
+if owner then
+  return owner
+end
+if redis.call('SCARD', KEYS[2]) > 0 then
+  return false
+end
+redis.call('SET', KEYS[1], ARGV[1])
+return ARGV[1]
+`;
+
+/**
+ * Reads a sorted set's running score sum, computing it first if the set
+ * predates the sums.
+ *
+ * KEYS[1], [2]  leaderboard and its stats hash
+ *
+ * Returns the sum, or false if the leaderboard does not exist.
+ */
+const SCORE_SUM_SCRIPT = `${SUM_LUA}
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return false
+end
+ensureSum(KEYS[1], KEYS[2])
+return redis.call('HGET', KEYS[2], 'sum')
+`;
+
+/**
+ * Token buckets for rate limiting. A request draws one token from every
+ * bucket, and only when each of them has one, so a denied request costs
+ * nothing. Buckets refill continuously at limit tokens per window and are
+ * stored as hashes of the token count and last update time.
+ *
+ * KEYS[1+]   buckets
+ * ARGV       now (unix ms), then limit and window (ms) per bucket
+ *
+ * Returns { 1 if allowed else 0, then per bucket: tokens remaining, ms
+ * until a token is available, ms until the bucket is full }.
+ */
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local available = {}
+local allowed = 1
+
+for i = 1, #KEYS do
+  local capacity = tonumber(ARGV[2 * i])
+  local windowMs = tonumber(ARGV[2 * i + 1])
+  local bucket = redis.call('HMGET', KEYS[i], 'tokens', 'updated_at')
+  local tokens = tonumber(bucket[1]) or capacity
+  local elapsed = math.max(0, now - (tonumber(bucket[2]) or now))
+  available[i] = math.min(capacity, tokens + elapsed * capacity / windowMs)
+  if available[i] < 1 then
+    allowed = 0
+  end
+end
+
+local result = { allowed }
+for i = 1, #KEYS do
+  local capacity = tonumber(ARGV[2 * i])
+  local windowMs = tonumber(ARGV[2 * i + 1])
+  local tokens = available[i]
+  if allowed == 1 then
+    tokens = tokens - 1
+    redis.call('HSET', KEYS[i], 'tokens', tostring(tokens), 'updated_at', ARGV[1])
+    redis.call('PEXPIRE', KEYS[i], windowMs)
+  end
+
+  local msPerToken = windowMs / capacity
+  table.insert(result, math.floor(tokens))
+  table.insert(result, math.ceil(math.max(0, 1 - tokens) * msPerToken))
+  table.insert(result, math.ceil((capacity - tokens) * msPerToken))
+end
+
+return result
+`;
 
 export class RedisService {
   private client: RedisClientType;
-  private readonly LEADERBOARD_KEY = 'global:leaderboard';
-  private readonly LEADERBOARD_CACHE_KEY = 'leaderboard:cache';
-  private readonly LEADERBOARD_TIMESTAMP_KEY = 'leaderboard:last_update';
+  private readonly LEADERBOARD_KEY_SUFFIX = ':leaderboard';
+  private readonly LEADERBOARD_CACHE_PREFIX = 'leaderboard:cache:';
+  private readonly LEADERBOARD_TIMESTAMP_PREFIX = 'leaderboard:last_update:';
+  private readonly LEADERBOARD_VERSION_PREFIX = 'leaderboard:version:';
+  private readonly LEADERBOARD_HISTORY_PREFIX = 'leaderboard:history:';
+  private readonly BOARD_INDEX_KEY = 'leaderboards';
+  private readonly BOARD_CONFIG_PREFIX = 'leaderboard:config:';
+  private readonly ARCHIVE_INDEX_SUFFIX = ':archives:';
+  private readonly STATS_KEY_SUFFIX = ':stats';
+  private readonly STATISTICS_CACHE_PREFIX = 'leaderboard:statistics:';
+  private readonly OUTBOX_STREAM_KEY = 'outbox:scores';
+  private readonly OUTBOX_GROUP = 'outbox-relay';
+  private readonly SUBMISSION_FREQUENCY_PREFIX = 'anticheat:frequency:';
+  private readonly IMPROVEMENT_BASELINE_PREFIX = 'anticheat:baseline:';
+  private readonly QUARANTINE_ENTRY_PREFIX = 'quarantine:entry:';
+  private readonly QUARANTINE_PENDING_KEY = 'quarantine:pending';
+  private readonly IDEMPOTENCY_PREFIX = 'idempotency:';
+  private readonly CONSUMED_SUBMISSION_PREFIX = 'idempotency:consumed:';
+  private readonly SIGNATURE_NONCE_PREFIX = 'signature:nonce:';
+  private readonly RATE_LIMIT_PREFIX = 'ratelimit:';
+  private readonly BANNED_PLAYERS_KEY = 'moderation:bans';
+  private readonly AUDIT_LOG_KEY = 'moderation:audit';
+  private readonly REBUILD_LOCK_KEY = 'leaderboard:rebuild:lock';
+  private readonly REBUILD_STATUS_KEY = 'leaderboard:rebuild:status';
+  private readonly REBUILD_MARKER_KEY = 'leaderboard:rebuild:since';
+  private readonly REBUILD_COPY_PREFIX = 'rebuild:';
   private readonly USER_CACHE_PREFIX = 'user:';
+  private readonly GROUP_MEMBERS_PREFIX = 'group:members:';
+  private readonly PLAYER_GROUPS_PREFIX = 'player:groups:';
+  private readonly GROUP_OWNER_PREFIX = 'group:owner:';
+  private scriptShas: Map<string, string> = new Map();
 
   constructor(host: string, port: number) {
     this.client = createClient({
@@ -29,42 +489,591 @@ export class RedisService {
   }
 
   /**
-   * Add or update a player's score in the leaderboard
-   * Time Complexity: O(log N)
+   * Sorted set key of a board, or of one period of a board's time window.
+   * The default 'global' board resolves to 'global:leaderboard', the key
+   * used before named boards existed.
+   */
+  private leaderboardKey(boardId: string, period?: WindowPeriod): string {
+    const key = `${boardId}${this.LEADERBOARD_KEY_SUFFIX}`;
+    return period ? `${key}:${period.window}:${period.period}` : key;
+  }
+
+  /**
+   * Hash holding running aggregates (the score sum) of a sorted set
    */
-  async addScore(playerId: string, score: number): Promise<void> {
-    await this.client.zAdd(this.LEADERBOARD_KEY, {
+  private statsKey(boardId: string, period?: WindowPeriod): string {
+    return `${this.leaderboardKey(boardId, period)}${this.STATS_KEY_SUFFIX}`;
+  }
+
+  /**
+   * A board's all-time and period leaderboards with their stats hashes, in
+   * pairs, or those of the copies a rebuild is building
+   */
+  private boardKeys(boardId: string, periods: WindowPeriod[], copy: boolean = false): string[] {
+    const prefix = copy ? this.REBUILD_COPY_PREFIX : '';
+    return [undefined, ...periods].flatMap((period) => [
+      `${prefix}${this.leaderboardKey(boardId, period)}`,
+      `${prefix}${this.statsKey(boardId, period)}`,
+    ]);
+  }
+
+  /**
+   * Tiebreak that ranks earlier achievements first among equal scores.
+   * Never 0, which marks members without an achievement time.
+   */
+  private tiebreak(achievedAt: number): number {
+    const elapsed = Math.floor((achievedAt - TIEBREAK_EPOCH_MS) / 1000);
+    return TIE_RANGE - 1 - Math.min(Math.max(elapsed, 0), TIE_RANGE - 2);
+  }
+
+  /**
+   * Original integer score of an encoded sorted set score
+   */
+  private decodeScore(encoded: number): number {
+    return Math.floor(encoded);
+  }
+
+  /**
+   * Achievement time (ISO 8601) of an encoded sorted set score, or null
+   * when the member has none
+   */
+  private decodeAchievedAt(encoded: number): string | null {
+    const tiebreak = (encoded - Math.floor(encoded)) * TIE_RANGE;
+    if (tiebreak === 0) {
+      return null;
+    }
+    return new Date(TIEBREAK_EPOCH_MS + (TIE_RANGE - 1 - tiebreak) * 1000).toISOString();
+  }
+
+  /**
+   * Run a Lua script by SHA, loading it on first use or after a SCRIPT FLUSH
+   */
+  private async runScript(
+    script: string,
+    options: { keys: string[]; arguments: string[] }
+  ): Promise<unknown> {
+    let sha = this.scriptShas.get(script);
+
+    if (sha) {
+      try {
+        return await this.client.evalSha(sha, options);
+      } catch (error) {
+        if (!(error instanceof Error) || !error.message.startsWith('NOSCRIPT')) {
+          throw error;
+        }
+      }
+    }
+
+    sha = await this.client.scriptLoad(script);
+    this.scriptShas.set(script, sha);
+    return await this.client.evalSha(sha, options);
+  }
+
+  /**
+   * Apply a player's submission to the all-time leaderboard and to the
+   * current period of each time window, combining it with the stored score
+   * according to the board's aggregation policy. Ties rank by achievedAt,
+   * the submission's own timestamp; acceptedAt is the server time it was
+   * first accepted. The result carries the player's resulting all-time
+   * rank. Given an outbox
+   * submission, the submission and its outcome are queued for Kafka in the
+   * same atomic step, so an applied score is never left unpublished.
+   * Time Complexity: O(log N) per window
+   */
+  async addScore(
+    boardId: string,
+    playerId: string,
+    score: number,
+    achievedAt: number,
+    acceptedAt: number,
+    aggregation: AggregationPolicy,
+    periods: ActiveWindowPeriod[] = [],
+    outbox?: ScoreSubmission
+  ): Promise<ScoreUpdateResult> {
+    return this.applyScore(
+      [...this.boardKeys(boardId, periods), ...this.boardKeys(boardId, periods, true)],
+      boardId,
+      playerId,
+      score,
+      achievedAt,
+      acceptedAt,
+      aggregation,
+      periods,
+      outbox
+    );
+  }
+
+  /**
+   * Apply a replayed submission to the copies of a board that a rebuild is
+   * building, as addScore() applies a live one to the board
+   */
+  async addRebuiltScore(
+    boardId: string,
+    playerId: string,
+    score: number,
+    achievedAt: number,
+    acceptedAt: number,
+    aggregation: AggregationPolicy,
+    periods: ActiveWindowPeriod[] = []
+  ): Promise<ScoreUpdateResult> {
+    return this.applyScore(
+      this.boardKeys(boardId, periods, true),
+      boardId,
+      playerId,
       score,
-      value: playerId,
+      achievedAt,
+      acceptedAt,
+      aggregation,
+      periods
+    );
+  }
+
+  private async applyScore(
+    boardKeys: string[],
+    boardId: string,
+    playerId: string,
+    score: number,
+    achievedAt: number,
+    acceptedAt: number,
+    aggregation: AggregationPolicy,
+    periods: ActiveWindowPeriod[],
+    outbox?: ScoreSubmission
+  ): Promise<ScoreUpdateResult> {
+    let reply: [string | null, string, number];
+
+    try {
+      reply = (await this.runScript(ADD_SCORE_SCRIPT, {
+        keys: [this.BOARD_INDEX_KEY, this.OUTBOX_STREAM_KEY, this.REBUILD_MARKER_KEY, ...boardKeys],
+        arguments: [
+          boardId,
+          playerId,
+          score.toString(),
+          this.tiebreak(achievedAt).toString(),
+          aggregation,
+          TIE_RANGE.toString(),
+          MAX_SCORE.toString(),
+          outbox ? JSON.stringify(outbox) : '',
+          Date.now().toString(),
+          acceptedAt.toString(),
+          ...periods.map((period) =>
+            (Math.ceil(period.endsAt / 1000) + WINDOW_GRACE_SECONDS).toString()
+          ),
+        ],
+      })) as [string | null, string, number];
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('SCORE_OUT_OF_RANGE')) {
+        throw new ScoreOutOfRangeError(parseInt(error.message.split(' ')[1], 10));
+      }
+      throw error;
+    }
+
+    const previousScore = reply[0] !== null ? parseInt(reply[0], 10) : null;
+    const storedScore = parseInt(reply[1], 10);
+
+    return {
+      previousScore,
+      storedScore,
+      changed: previousScore !== storedScore,
+      rank: reply[2],
+    };
+  }
+
+  /**
+   * Store a board's configuration and register the board
+   */
+  async setBoardConfig(config: BoardConfig): Promise<void> {
+    await this.client
+      .multi()
+      .del(`${this.BOARD_CONFIG_PREFIX}${config.board_id}`)
+      .hSet(`${this.BOARD_CONFIG_PREFIX}${config.board_id}`, {
+        aggregation: config.aggregation,
+        ...(config.max_score !== null && { max_score: config.max_score.toString() }),
+      })
+      .sAdd(this.BOARD_INDEX_KEY, config.board_id)
+      .exec();
+  }
+
+  /**
+   * Get a board's configuration, falling back to defaults for boards that
+   * were never configured
+   */
+  async getBoardConfig(boardId: string): Promise<BoardConfig> {
+    const config = await this.client.hGetAll(`${this.BOARD_CONFIG_PREFIX}${boardId}`);
+
+    return {
+      board_id: boardId,
+      aggregation: (config.aggregation as AggregationPolicy) || DEFAULT_AGGREGATION_POLICY,
+      max_score: config.max_score !== undefined ? parseInt(config.max_score, 10) : null,
+    };
+  }
+
+  /**
+   * Store a board's configuration unless one exists, and register the board
+   */
+  async restoreBoardConfig(config: Pick<BoardConfig, 'board_id' | 'aggregation'>): Promise<void> {
+    await this.client
+      .multi()
+      .hSetNX(`${this.BOARD_CONFIG_PREFIX}${config.board_id}`, 'aggregation', config.aggregation)
+      .sAdd(this.BOARD_INDEX_KEY, config.board_id)
+      .exec();
+  }
+
+  /**
+   * Delete a board's all-time sorted set and the given periods, along with
+   * their running statistics
+   */
+  async clearBoard(boardId: string, periods: WindowPeriod[] = []): Promise<void> {
+    await this.client.del(this.boardKeys(boardId, periods));
+  }
+
+  /**
+   * Claim the cluster-wide rebuild lock. Returns false if another instance
+   * holds it.
+   */
+  async acquireRebuildLock(owner: string, ttlSeconds: number): Promise<boolean> {
+    const reply = await this.client.set(this.REBUILD_LOCK_KEY, owner, {
+      NX: true,
+      EX: ttlSeconds,
     });
+    return reply === 'OK';
+  }
+
+  /**
+   * Whether any instance holds the rebuild lock
+   */
+  async isRebuildRunning(): Promise<boolean> {
+    return (await this.client.exists(this.REBUILD_LOCK_KEY)) === 1;
+  }
+
+  /**
+   * Renew the rebuild lock, and the rebuild marker with it. Returns false if
+   * the owner no longer holds the lock.
+   */
+  async extendRebuildLock(owner: string, ttlSeconds: number): Promise<boolean> {
+    const held = await this.runScript(REBUILD_LOCK_SCRIPT, {
+      keys: [this.REBUILD_LOCK_KEY, this.REBUILD_MARKER_KEY],
+      arguments: [owner, ttlSeconds.toString()],
+    });
+    return held === 1;
+  }
+
+  /**
+   * Release the rebuild lock, unless it expired and another instance has
+   * claimed it since
+   */
+  async releaseRebuildLock(owner: string): Promise<void> {
+    await this.runScript(REBUILD_LOCK_SCRIPT, {
+      keys: [this.REBUILD_LOCK_KEY, this.REBUILD_MARKER_KEY],
+      arguments: [owner],
+    });
+  }
+
+  /**
+   * Start sending live submissions achieved from now on to the copies a
+   * rebuild builds. Returns the start time (unix ms), from which the
+   * replay leaves submissions out.
+   */
+  async beginRebuildCopies(ttlSeconds: number): Promise<number> {
+    const since = Date.now();
+    await this.client.set(this.REBUILD_MARKER_KEY, since.toString(), { EX: ttlSeconds });
+    return since;
+  }
+
+  /**
+   * Replace boards with their rebuilt copies in one step, and stop sending
+   * live submissions to copies
+   */
+  async swapInRebuiltBoards(boardIds: string[], periods: WindowPeriod[] = []): Promise<void> {
+    await this.runScript(SWAP_REBUILT_SCRIPT, {
+      keys: [
+        this.REBUILD_MARKER_KEY,
+        ...boardIds.flatMap((boardId) => {
+          const copies = this.boardKeys(boardId, periods, true);
+          return this.boardKeys(boardId, periods).flatMap((key, i) => [copies[i], key]);
+        }),
+      ],
+      arguments: [],
+    });
+  }
+
+  /**
+   * Stop sending live submissions to copies and delete the copies of the
+   * given boards, e.g. after a failed rebuild
+   */
+  async discardRebuiltBoards(boardIds: string[], periods: WindowPeriod[] = []): Promise<void> {
+    await this.client.del([
+      this.REBUILD_MARKER_KEY,
+      ...boardIds.flatMap((boardId) => this.boardKeys(boardId, periods, true)),
+    ]);
+  }
+
+  /**
+   * Publish rebuild progress so every instance can report it
+   */
+  async setRebuildStatus(status: RebuildStatus): Promise<void> {
+    await this.client.set(this.REBUILD_STATUS_KEY, JSON.stringify(status));
+  }
+
+  async getRebuildStatus(): Promise<RebuildStatus | null> {
+    const status = await this.client.get(this.REBUILD_STATUS_KEY);
+    return status ? JSON.parse(status) : null;
+  }
+
+  /**
+   * Archive the final standing of a closed period: the period's sorted set
+   * is kept (for retentionSeconds, or indefinitely when 0) and listed in the
+   * board's archive index. Returns false if there was nothing to archive.
+   */
+  async archivePeriod(
+    boardId: string,
+    period: ActiveWindowPeriod,
+    retentionSeconds: number
+  ): Promise<boolean> {
+    const indexKey = `${boardId}${this.ARCHIVE_INDEX_SUFFIX}${period.window}`;
+    const key = this.leaderboardKey(boardId, period);
+
+    const alreadyArchived = await this.client.zScore(indexKey, period.period);
+    if (alreadyArchived !== null || !(await this.client.exists(key))) {
+      return false;
+    }
+
+    const statsKey = this.statsKey(boardId, period);
+    const transaction = this.client.multi();
+    if (retentionSeconds > 0) {
+      transaction.expire(key, retentionSeconds);
+      transaction.expire(statsKey, retentionSeconds);
+    } else {
+      transaction.persist(key);
+      transaction.persist(statsKey);
+    }
+    transaction.zAdd(indexKey, { score: period.endsAt, value: period.period });
+    await transaction.exec();
+
+    return true;
+  }
+
+  /**
+   * Get the archived periods of a board's time window, most recent first
+   */
+  async getArchivedPeriods(boardId: string, window: TimeWindow): Promise<string[]> {
+    return await this.client.zRange(
+      `${boardId}${this.ARCHIVE_INDEX_SUFFIX}${window}`,
+      0,
+      -1,
+      { REV: true }
+    );
+  }
+
+  /**
+   * Get the ids of all boards that have received scores
+   */
+  async getBoards(): Promise<string[]> {
+    const boards = await this.client.sMembers(this.BOARD_INDEX_KEY);
+    return boards.sort();
   }
 
   /**
    * Get top N players from the leaderboard
    * Time Complexity: O(log(N) + M) where M is the number of elements returned
    */
-  async getTopPlayers(count: number = 10): Promise<LeaderboardEntry[]> {
+  async getTopPlayers(
+    boardId: string,
+    count: number = 10,
+    period?: WindowPeriod
+  ): Promise<LeaderboardEntry[]> {
     // ZREVRANGE with WITHSCORES returns players in descending order (highest scores first)
     const results = await this.client.zRangeWithScores(
-      this.LEADERBOARD_KEY,
+      this.leaderboardKey(boardId, period),
       0,
       count - 1,
       { REV: true }
     );
 
-    return results.map((result, index) => ({
+    return this.toEntries(results, 1);
+  }
+
+  /**
+   * Get one page of the leaderboard. Without a cursor the first page is
+   * returned; otherwise the page after (or before) the cursor's anchor entry.
+   * Pages are located from the anchor's position rather than by offset,
+   * so players moving elsewhere on the board do not shift the page.
+   * Time Complexity: O(log(T) * log(N) + M) for T entries tied with the anchor
+   */
+  async getPage(
+    boardId: string,
+    limit: number,
+    cursor?: string,
+    period?: WindowPeriod
+  ): Promise<LeaderboardPage> {
+    const key = this.leaderboardKey(boardId, period);
+    const anchor = cursor !== undefined ? this.decodeCursor(cursor) : null;
+
+    // Index of the page's first entry, in descending board order
+    let start = 0;
+    if (anchor !== null) {
+      const boundary = await this.anchorIndex(key, anchor);
+      start = anchor.direction === 'next' ? boundary : Math.max(boundary - limit, 0);
+      limit = anchor.direction === 'next' ? limit : boundary - start;
+    }
+
+    const results =
+      limit > 0
+        ? await this.client.zRangeWithScores(key, start, start + limit - 1, { REV: true })
+        : [];
+    const total = await this.client.zCard(key);
+
+    if (results.length === 0) {
+      return { entries: [], total, next_cursor: null, prev_cursor: null };
+    }
+
+    const first = results[0];
+    const last = results[results.length - 1];
+    const firstRank = start + 1;
+    const lastRank = firstRank + results.length - 1;
+
+    return {
+      entries: this.toEntries(results, firstRank),
+      total,
+      next_cursor:
+        lastRank < total
+          ? this.encodeCursor({ direction: 'next', score: last.score, playerId: last.value })
+          : null,
+      prev_cursor:
+        firstRank > 1
+          ? this.encodeCursor({ direction: 'prev', score: first.score, playerId: first.value })
+          : null,
+    };
+  }
+
+  /**
+   * Index, in descending board order, of the first entry after the anchor
+   * for next pages, or of the first entry not before it for previous
+   * pages. The anchor itself need not be on the board any more. Entries
+   * sharing its score sort by member, descending, and are searched by index
+   * so that a large tie group is never read in full.
+   * Time Complexity: O(log(T) * log(N)) for T entries sharing the score
+   */
+  private async anchorIndex(key: string, anchor: PageCursor): Promise<number> {
+    const above = await this.client.zCount(key, `(${anchor.score}`, '+inf');
+    const ties = await this.client.zCount(key, anchor.score, anchor.score);
+
+    // Count the ties that sort before the anchor (and the anchor itself for
+    // next pages): they form a prefix of the tie group
+    const isBefore = (member: string): boolean => {
+      const order = this.compareMembers(member, anchor.playerId);
+      return anchor.direction === 'next' ? order >= 0 : order > 0;
+    };
+
+    let low = 0;
+    let high = ties;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const [member] = await this.client.zRange(key, above + middle, above + middle, {
+        REV: true,
+      });
+      if (member !== undefined && isBefore(member)) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return above + low;
+  }
+
+  /**
+   * Order of two members as Redis sorts them: by their bytes
+   */
+  private compareMembers(a: string, b: string): number {
+    return Buffer.compare(Buffer.from(a), Buffer.from(b));
+  }
+
+  private encodeCursor(cursor: PageCursor): string {
+    return Buffer.from(
+      JSON.stringify([cursor.direction, cursor.score, cursor.playerId])
+    ).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): PageCursor {
+    try {
+      const [direction, score, playerId] = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf-8')
+      );
+
+      if (
+        (direction === 'next' || direction === 'prev') &&
+        Number.isFinite(score) &&
+        typeof playerId === 'string'
+      ) {
+        return { direction, score, playerId };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+
+    throw new InvalidCursorError();
+  }
+
+  /**
+   * Get the players ranked just above and below a player, including the
+   * player. The window is clipped at the top and bottom of the board.
+   * Returns null if the player has no score.
+   * Time Complexity: O(log(N) + M)
+   */
+  async getPlayersAround(
+    boardId: string,
+    playerId: string,
+    before: number,
+    after: number,
+    period?: WindowPeriod
+  ): Promise<LeaderboardEntry[] | null> {
+    const key = this.leaderboardKey(boardId, period);
+    const rank = await this.client.zRevRank(key, playerId);
+
+    if (rank === null) {
+      return null;
+    }
+
+    const start = Math.max(rank - before, 0);
+    const results = await this.client.zRangeWithScores(key, start, rank + after, {
+      REV: true,
+    });
+
+    return this.toEntries(results, start + 1);
+  }
+
+  /**
+   * Map sorted set members to leaderboard entries, ranked from firstRank
+   */
+  private toEntries(
+    results: Array<{ value: string; score: number }>,
+    firstRank: number
+  ): LeaderboardEntry[] {
+    return results.map((result, index) => this.toEntry(result, firstRank + index));
+  }
+
+  /**
+   * Map a sorted set member to a leaderboard entry
+   */
+  private toEntry(result: { value: string; score: number }, rank: number): LeaderboardEntry {
+    return {
       player_id: result.value,
-      rank: index + 1,
-      score: result.score,
-    }));
+      rank,
+      score: this.decodeScore(result.score),
+      achieved_at: this.decodeAchievedAt(result.score),
+    };
   }
 
   /**
    * Get a specific player's rank
    * Time Complexity: O(log N)
    */
-  async getPlayerRank(playerId: string): Promise<number | null> {
-    const rank = await this.client.zRevRank(this.LEADERBOARD_KEY, playerId);
+  async getPlayerRank(
+    boardId: string,
+    playerId: string,
+    period?: WindowPeriod
+  ): Promise<number | null> {
+    const rank = await this.client.zRevRank(this.leaderboardKey(boardId, period), playerId);
     return rank !== null ? rank + 1 : null;
   }
 
@@ -72,9 +1081,13 @@ export class RedisService {
    * Get a specific player's score
    * Time Complexity: O(1)
    */
-  async getPlayerScore(playerId: string): Promise<number | null> {
-    const score = await this.client.zScore(this.LEADERBOARD_KEY, playerId);
-    return score;
+  async getPlayerScore(
+    boardId: string,
+    playerId: string,
+    period?: WindowPeriod
+  ): Promise<number | null> {
+    const score = await this.client.zScore(this.leaderboardKey(boardId, period), playerId);
+    return score !== null ? this.decodeScore(score) : null;
   }
 
   /**
@@ -82,7 +1095,7 @@ export class RedisService {
    */
   async cacheLeaderboard(leaderboard: LeaderboardUpdate): Promise<void> {
     await this.client.set(
-      this.LEADERBOARD_CACHE_KEY,
+      `${this.LEADERBOARD_CACHE_PREFIX}${leaderboard.board_id}`,
       JSON.stringify(leaderboard)
     );
   }
@@ -90,26 +1103,60 @@ export class RedisService {
   /**
    * Get cached leaderboard with O(1) lookup
    */
-  async getCachedLeaderboard(): Promise<LeaderboardUpdate | null> {
-    const cached = await this.client.get(this.LEADERBOARD_CACHE_KEY);
+  async getCachedLeaderboard(boardId: string): Promise<LeaderboardUpdate | null> {
+    const cached = await this.client.get(`${this.LEADERBOARD_CACHE_PREFIX}${boardId}`);
     return cached ? JSON.parse(cached) : null;
   }
 
   /**
    * Update the last update timestamp
    */
-  async setLastUpdateTimestamp(timestamp: number): Promise<void> {
-    await this.client.set(this.LEADERBOARD_TIMESTAMP_KEY, timestamp.toString());
+  async setLastUpdateTimestamp(boardId: string, timestamp: number): Promise<void> {
+    await this.client.set(
+      `${this.LEADERBOARD_TIMESTAMP_PREFIX}${boardId}`,
+      timestamp.toString()
+    );
   }
 
   /**
    * Get the last update timestamp
    */
-  async getLastUpdateTimestamp(): Promise<number | null> {
-    const timestamp = await this.client.get(this.LEADERBOARD_TIMESTAMP_KEY);
+  async getLastUpdateTimestamp(boardId: string): Promise<number | null> {
+    const timestamp = await this.client.get(
+      `${this.LEADERBOARD_TIMESTAMP_PREFIX}${boardId}`
+    );
     return timestamp ? parseInt(timestamp, 10) : null;
   }
 
+  /**
+   * Allocate the next version of a board's published leaderboard
+   */
+  async nextLeaderboardVersion(boardId: string): Promise<number> {
+    return await this.client.incr(`${this.LEADERBOARD_VERSION_PREFIX}${boardId}`);
+  }
+
+  /**
+   * Keep a published leaderboard in its board's history of recent versions
+   */
+  async addLeaderboardHistory(broadcast: LeaderboardBroadcast, maxEntries: number): Promise<void> {
+    const key = `${this.LEADERBOARD_HISTORY_PREFIX}${broadcast.board_id}`;
+    await this.client
+      .multi()
+      .lPush(key, JSON.stringify(broadcast))
+      .lTrim(key, 0, maxEntries - 1)
+      .exec();
+  }
+
+  /**
+   * Get a board's recently published leaderboards, newest first
+   */
+  async getLeaderboardHistory(boardId: string): Promise<LeaderboardBroadcast[]> {
+    const entries = await this.client.lRange(`${this.LEADERBOARD_HISTORY_PREFIX}${boardId}`, 0, -1);
+    return entries
+      .map((entry) => JSON.parse(entry) as LeaderboardBroadcast)
+      .sort((a, b) => b.version - a.version);
+  }
+
   /**
    * Cache user details for O(1) lookup
    */
@@ -131,15 +1178,689 @@ export class RedisService {
   /**
    * Get total number of players in leaderboard
    */
-  async getTotalPlayers(): Promise<number> {
-    return await this.client.zCard(this.LEADERBOARD_KEY);
+  async getTotalPlayers(boardId: string, period?: WindowPeriod): Promise<number> {
+    return await this.client.zCard(this.leaderboardKey(boardId, period));
+  }
+
+  /**
+   * Get the entries of the given players, ordered like the board, with
+   * their rank on the whole board. Players without a score are omitted.
+   * Time Complexity: O(M log N) for M players
+   */
+  async getEntriesForPlayers(
+    boardId: string,
+    playerIds: string[],
+    period?: WindowPeriod
+  ): Promise<LeaderboardEntry[]> {
+    if (playerIds.length === 0) {
+      return [];
+    }
+
+    const key = this.leaderboardKey(boardId, period);
+    const scores = await this.client.zmScore(key, playerIds);
+
+    const members = playerIds
+      .map((playerId, index) => ({ value: playerId, score: scores[index] }))
+      .filter((member): member is { value: string; score: number } => member.score !== null)
+      // Same order as ZREVRANGE: score, then member, descending
+      .sort((a, b) => b.score - a.score || this.compareMembers(b.value, a.value));
+
+    const ranks = await Promise.all(
+      members.map((member) => this.client.zRevRank(key, member.value))
+    );
+
+    return members.map((member, index) => this.toEntry(member, (ranks[index] ?? 0) + 1));
+  }
+
+  /**
+   * Replace the members of a group
+   */
+  async setGroupMembers(groupId: string, playerIds: string[]): Promise<void> {
+    const previous = await this.getGroupMembers(groupId);
+    const transaction = this.client.multi();
+
+    for (const playerId of previous) {
+      transaction.sRem(`${this.PLAYER_GROUPS_PREFIX}${playerId}`, groupId);
+    }
+    transaction.del(`${this.GROUP_MEMBERS_PREFIX}${groupId}`);
+
+    if (playerIds.length > 0) {
+      transaction.sAdd(`${this.GROUP_MEMBERS_PREFIX}${groupId}`, playerIds);
+      for (const playerId of playerIds) {
+        transaction.sAdd(`${this.PLAYER_GROUPS_PREFIX}${playerId}`, groupId);
+      }
+    }
+
+    await transaction.exec();
   }
 
   /**
-   * Remove a player from leaderboard
+   * Delete a group's members and owner
    */
-  async removePlayer(playerId: string): Promise<void> {
-    await this.client.zRem(this.LEADERBOARD_KEY, playerId);
+  async deleteGroup(groupId: string): Promise<void> {
+    await this.setGroupMembers(groupId, []);
+    await this.client.del(`${this.GROUP_OWNER_PREFIX}${groupId}`);
+  }
+
+  /**
+   * Get the principal that created a group, or null for groups created
+   * before owners were recorded
+   */
+  async getGroupOwner(groupId: string): Promise<string | null> {
+    return await this.client.get(`${this.GROUP_OWNER_PREFIX}${groupId}`);
+  }
+
+  /**
+   * Get a group's owner, making the caller the owner if the group is new
+   */
+  async claimGroup(groupId: string, ownerId: string): Promise<string | null> {
+    const owner = await this.runScript(CLAIM_GROUP_SCRIPT, {
+      keys: [`${this.GROUP_OWNER_PREFIX}${groupId}`, `${this.GROUP_MEMBERS_PREFIX}${groupId}`],
+      arguments: [ownerId],
+    });
+    return typeof owner === 'string' ? owner : null;
+  }
+
+  /**
+   * Add players to a group
+   */
+  async addGroupMembers(groupId: string, playerIds: string[]): Promise<void> {
+    const transaction = this.client.multi();
+
+    transaction.sAdd(`${this.GROUP_MEMBERS_PREFIX}${groupId}`, playerIds);
+    for (const playerId of playerIds) {
+      transaction.sAdd(`${this.PLAYER_GROUPS_PREFIX}${playerId}`, groupId);
+    }
+
+    await transaction.exec();
   }
-}
 
+  /**
+   * Remove a player from a group
+   */
+  async removeGroupMember(groupId: string, playerId: string): Promise<void> {
+    await this.client
+      .multi()
+      .sRem(`${this.GROUP_MEMBERS_PREFIX}${groupId}`, playerId)
+      .sRem(`${this.PLAYER_GROUPS_PREFIX}${playerId}`, groupId)
+      .exec();
+  }
+
+  /**
+   * Get the members of a group
+   */
+  async getGroupMembers(groupId: string): Promise<string[]> {
+    return await this.client.sMembers(`${this.GROUP_MEMBERS_PREFIX}${groupId}`);
+  }
+
+  /**
+   * Get the groups a player belongs to
+   */
+  async getPlayerGroups(playerId: string): Promise<string[]> {
+    return await this.client.sMembers(`${this.PLAYER_GROUPS_PREFIX}${playerId}`);
+  }
+
+  /**
+   * Get the score at a position counted from the lowest score (0-based)
+   * Time Complexity: O(log N)
+   */
+  async getScoreAtAscendingIndex(
+    boardId: string,
+    index: number,
+    period?: WindowPeriod
+  ): Promise<number | null> {
+    const results = await this.client.zRangeWithScores(
+      this.leaderboardKey(boardId, period),
+      index,
+      index
+    );
+    return results.length > 0 ? this.decodeScore(results[0].score) : null;
+  }
+
+  /**
+   * Count players whose score lies in [min, max] (inclusive integers)
+   * Time Complexity: O(log N)
+   */
+  async countScoresBetween(
+    boardId: string,
+    min: number,
+    max: number,
+    period?: WindowPeriod
+  ): Promise<number> {
+    // Encoded scores of score s span [s, s + 1)
+    return await this.client.zCount(this.leaderboardKey(boardId, period), min, `(${max + 1}`);
+  }
+
+  /**
+   * Count the players a score change moved the player past, on the all-time
+   * board
+   * Time Complexity: O(log N)
+   */
+  async countPassedPlayers(change: LeaderboardChange): Promise<number> {
+    const [min, max] = await this.passedRange(change);
+    return await this.client.zCount(
+      this.leaderboardKey(change.board_id),
+      this.exclusiveBound(min),
+      this.exclusiveBound(max)
+    );
+  }
+
+  /**
+   * Get the players a score change moved the player past, on the all-time
+   * board
+   * Time Complexity: O(log N + M) for M players returned
+   */
+  async getPassedPlayers(change: LeaderboardChange): Promise<string[]> {
+    const [min, max] = await this.passedRange(change);
+    return await this.client.zRangeByScore(
+      this.leaderboardKey(change.board_id),
+      this.exclusiveBound(min),
+      this.exclusiveBound(max)
+    );
+  }
+
+  /**
+   * Entries of those of the given players a score change moved the player
+   * past, on the all-time board, best first
+   */
+  async getPassedEntries(
+    change: LeaderboardChange,
+    playerIds: string[]
+  ): Promise<LeaderboardEntry[]> {
+    const [min, max] = await this.passedRange(change);
+    const key = this.leaderboardKey(change.board_id);
+    const candidates = playerIds.filter((playerId) => playerId !== change.player_id);
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const scores = await this.client.zmScore(key, candidates);
+    const members = candidates
+      .map((playerId, index) => ({ value: playerId, score: scores[index] }))
+      .filter(
+        (member): member is { value: string; score: number } =>
+          member.score !== null && member.score > min && member.score < max
+      )
+      .sort((a, b) => b.score - a.score || this.compareMembers(b.value, a.value));
+
+    const ranks = await Promise.all(
+      members.map((member) => this.client.zRevRank(key, member.value))
+    );
+    return members.map((member, index) => this.toEntry(member, (ranks[index] ?? 0) + 1));
+  }
+
+  /**
+   * Sorted set scores strictly between a changed player's old and new
+   * position. A new entry passes everyone below it. Equal scores rank by
+   * their tiebreak, so players tied at either score are passed only if the
+   * tiebreak puts them in between. Changes published before sort scores
+   * were recorded use the player's current one, and count everyone tied at
+   * the old score as passed.
+   */
+  private async passedRange(change: LeaderboardChange): Promise<[number, number]> {
+    const current =
+      change.sort_score ??
+      (await this.client.zScore(this.leaderboardKey(change.board_id), change.player_id)) ??
+      change.score;
+    const previous =
+      change.previous_score === null ? null : change.previous_sort_score ?? change.previous_score;
+
+    if (previous === null) {
+      return [-Infinity, current];
+    }
+    return current > previous ? [previous, current] : [current, previous];
+  }
+
+  private exclusiveBound(value: number): string {
+    return Number.isFinite(value) ? `(${value}` : value > 0 ? '+inf' : '-inf';
+  }
+
+  /**
+   * Get the sum of all stored scores, maintained on every write
+   * Time Complexity: O(1), or O(N) once for a board that predates the sums
+   */
+  async getScoreSum(boardId: string, period?: WindowPeriod): Promise<number> {
+    const sum = await this.runScript(SCORE_SUM_SCRIPT, {
+      keys: [this.leaderboardKey(boardId, period), this.statsKey(boardId, period)],
+      arguments: [],
+    });
+    return sum ? Number(sum) : 0;
+  }
+
+  /**
+   * Cache computed statistics for a short time
+   */
+  async cacheStatistics(cacheKey: string, statistics: any, ttlSeconds: number): Promise<void> {
+    await this.client.set(
+      `${this.STATISTICS_CACHE_PREFIX}${cacheKey}`,
+      JSON.stringify(statistics),
+      { EX: ttlSeconds }
+    );
+  }
+
+  /**
+   * Get cached statistics
+   */
+  async getCachedStatistics(cacheKey: string): Promise<any | null> {
+    const cached = await this.client.get(`${this.STATISTICS_CACHE_PREFIX}${cacheKey}`);
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  /**
+   * Create the outbox consumer group, and the stream if it does not exist yet
+   */
+  async ensureOutboxGroup(): Promise<void> {
+    try {
+      await this.client.xGroupCreate(this.OUTBOX_STREAM_KEY, this.OUTBOX_GROUP, '0', {
+        MKSTREAM: true,
+      });
+    } catch (error) {
+      if (!(error instanceof Error && error.message.startsWith('BUSYGROUP'))) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Read outbox entries not yet delivered to any relay, waiting up to
+   * blockMs for new ones. Blocking runs on an isolated connection so other
+   * commands are not held up.
+   */
+  async readOutbox(consumer: string, count: number, blockMs: number): Promise<OutboxEntry[]> {
+    const reply = await this.client.xReadGroup(
+      commandOptions({ isolated: true }),
+      this.OUTBOX_GROUP,
+      consumer,
+      { key: this.OUTBOX_STREAM_KEY, id: '>' },
+      { COUNT: count, BLOCK: blockMs }
+    );
+
+    return reply ? this.toOutboxEntries(reply[0].messages) : [];
+  }
+
+  /**
+   * Take over outbox entries that a relay received but did not acknowledge
+   * within minIdleMs, e.g. because its instance crashed or Kafka failed
+   */
+  async claimStaleOutbox(consumer: string, minIdleMs: number, count: number): Promise<OutboxEntry[]> {
+    const reply = await this.client.xAutoClaim(
+      this.OUTBOX_STREAM_KEY,
+      this.OUTBOX_GROUP,
+      consumer,
+      minIdleMs,
+      '0-0',
+      { COUNT: count }
+    );
+
+    return this.toOutboxEntries(reply.messages);
+  }
+
+  /**
+   * Acknowledge published outbox entries and remove them from the stream
+   */
+  async ackOutbox(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.client
+      .multi()
+      .xAck(this.OUTBOX_STREAM_KEY, this.OUTBOX_GROUP, ids)
+      .xDel(this.OUTBOX_STREAM_KEY, ids)
+      .exec();
+  }
+
+  /**
+   * Number of outbox entries waiting to be published
+   */
+  async getOutboxLength(): Promise<number> {
+    return await this.client.xLen(this.OUTBOX_STREAM_KEY);
+  }
+
+  private toOutboxEntries(
+    messages: Array<{ id: string; message: Record<string, string> } | null>
+  ): OutboxEntry[] {
+    return messages.flatMap((entry) => {
+      // Entries deleted while pending come back empty
+      if (entry === null) {
+        return [];
+      }
+
+      const { message } = entry;
+      const submission: ScoreSubmission = {
+        ...JSON.parse(message.submission),
+        rank_at_submission: parseInt(message.rank, 10),
+        outbox_id: entry.id,
+      };
+      const previousScore = message.previous !== '' ? parseInt(message.previous, 10) : null;
+      const storedScore = parseInt(message.stored, 10);
+      // Absent on entries written before sort scores were recorded
+      const sortScores =
+        message.stored_sort !== undefined
+          ? {
+              sort_score: parseFloat(message.stored_sort),
+              previous_sort_score:
+                message.previous_sort !== '' ? parseFloat(message.previous_sort) : null,
+            }
+          : {};
+
+      return [
+        {
+          id: entry.id,
+          submission,
+          change:
+            previousScore !== storedScore
+              ? {
+                  board_id: submission.board_id,
+                  player_id: submission.player_id,
+                  score: storedScore,
+                  previous_score: previousScore,
+                  ...sortScores,
+                  timestamp: parseInt(message.accepted_at, 10),
+                }
+              : null,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Count a player's submission to a board and return the number made in
+   * the current fixed window of windowSeconds
+   */
+  async countSubmission(boardId: string, playerId: string, windowSeconds: number): Promise<number> {
+    const key = `${this.SUBMISSION_FREQUENCY_PREFIX}${boardId}:${playerId}`;
+    const [, count] = await this.client
+      .multi()
+      .set(key, '0', { NX: true, EX: windowSeconds })
+      .incr(key)
+      .exec();
+    return count as number;
+  }
+
+  /**
+   * Get a player's score at the start of the current improvement window on
+   * a board, starting a window of windowSeconds at score if none is open
+   */
+  async getImprovementBaseline(
+    boardId: string,
+    playerId: string,
+    score: number,
+    windowSeconds: number
+  ): Promise<number> {
+    const key = `${this.IMPROVEMENT_BASELINE_PREFIX}${boardId}:${playerId}`;
+    const [, baseline] = await this.client
+      .multi()
+      .set(key, score.toString(), { NX: true, EX: windowSeconds })
+      .get(key)
+      .exec();
+    return Number(baseline);
+  }
+
+  /**
+   * Store a quarantined submission and list it for review
+   */
+  async addQuarantined(entry: QuarantinedSubmission): Promise<void> {
+    await this.client
+      .multi()
+      .set(`${this.QUARANTINE_ENTRY_PREFIX}${entry.id}`, JSON.stringify(entry))
+      .zAdd(this.QUARANTINE_PENDING_KEY, { score: Date.parse(entry.created_at), value: entry.id })
+      .exec();
+  }
+
+  async getQuarantined(id: string): Promise<QuarantinedSubmission | null> {
+    const entry = await this.client.get(`${this.QUARANTINE_ENTRY_PREFIX}${id}`);
+    return entry ? JSON.parse(entry) : null;
+  }
+
+  /**
+   * Get the oldest submissions awaiting review, and how many there are
+   */
+  async getPendingQuarantined(
+    limit: number
+  ): Promise<{ entries: QuarantinedSubmission[]; total: number }> {
+    const [ids, total] = await Promise.all([
+      this.client.zRange(this.QUARANTINE_PENDING_KEY, 0, limit - 1),
+      this.client.zCard(this.QUARANTINE_PENDING_KEY),
+    ]);
+    if (ids.length === 0) {
+      return { entries: [], total };
+    }
+
+    const entries = await this.client.mGet(ids.map((id) => `${this.QUARANTINE_ENTRY_PREFIX}${id}`));
+    return {
+      entries: entries.flatMap((entry) => (entry ? [JSON.parse(entry)] : [])),
+      total,
+    };
+  }
+
+  /**
+   * Take a submission off the review list. Returns false if it was not
+   * pending, so only one reviewer can act on it.
+   */
+  async claimQuarantined(id: string): Promise<boolean> {
+    return (await this.client.zRem(this.QUARANTINE_PENDING_KEY, id)) === 1;
+  }
+
+  /**
+   * Put a claimed submission back on the review list
+   */
+  async unclaimQuarantined(entry: QuarantinedSubmission): Promise<void> {
+    await this.client.zAdd(this.QUARANTINE_PENDING_KEY, {
+      score: Date.parse(entry.created_at),
+      value: entry.id,
+    });
+  }
+
+  /**
+   * Store a reviewed submission, kept for retentionSeconds
+   */
+  async saveReviewedQuarantined(
+    entry: QuarantinedSubmission,
+    retentionSeconds: number
+  ): Promise<void> {
+    await this.client.set(`${this.QUARANTINE_ENTRY_PREFIX}${entry.id}`, JSON.stringify(entry), {
+      EX: retentionSeconds,
+    });
+  }
+
+  /**
+   * Reserve a submission id for the first request that uses it. Returns
+   * null when the reservation succeeded, or the record left by an earlier
+   * request with the same id.
+   */
+  async reserveSubmission(
+    boardId: string,
+    submissionId: string,
+    fingerprint: string,
+    ttlSeconds: number
+  ): Promise<IdempotencyRecord | null> {
+    const key = `${this.IDEMPOTENCY_PREFIX}${boardId}:${submissionId}`;
+    const record: IdempotencyRecord = { fingerprint, status: null, body: null };
+
+    const reply = await this.client.set(key, JSON.stringify(record), {
+      NX: true,
+      EX: ttlSeconds,
+    });
+    if (reply === 'OK') {
+      return null;
+    }
+
+    const existing = await this.client.get(key);
+    return existing ? JSON.parse(existing) : null;
+  }
+
+  /**
+   * Store the response of a reserved submission, to be returned to retries
+   */
+  async completeSubmission(
+    boardId: string,
+    submissionId: string,
+    record: IdempotencyRecord,
+    ttlSeconds: number
+  ): Promise<void> {
+    await this.client.set(
+      `${this.IDEMPOTENCY_PREFIX}${boardId}:${submissionId}`,
+      JSON.stringify(record),
+      { EX: ttlSeconds }
+    );
+  }
+
+  /**
+   * Drop a reservation whose request failed, so the client can retry it
+   */
+  async releaseSubmission(boardId: string, submissionId: string): Promise<void> {
+    await this.client.del(`${this.IDEMPOTENCY_PREFIX}${boardId}:${submissionId}`);
+  }
+
+  /**
+   * Record that a submission id reached the score consumer. Returns false
+   * if it was already consumed, e.g. on Kafka redelivery.
+   */
+  async markSubmissionConsumed(
+    boardId: string,
+    submissionId: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    const reply = await this.client.set(
+      `${this.CONSUMED_SUBMISSION_PREFIX}${boardId}:${submissionId}`,
+      '1',
+      { NX: true, EX: ttlSeconds }
+    );
+    return reply === 'OK';
+  }
+
+  /**
+   * Record a signature nonce used by a client. Returns false if the client
+   * already used it within ttlSeconds.
+   */
+  async claimSignatureNonce(clientId: string, nonce: string, ttlSeconds: number): Promise<boolean> {
+    const reply = await this.client.set(`${this.SIGNATURE_NONCE_PREFIX}${clientId}:${nonce}`, '1', {
+      NX: true,
+      EX: ttlSeconds,
+    });
+    return reply === 'OK';
+  }
+
+  /**
+   * Draw a token from each rate limit bucket if all of them have one.
+   * Bucket keys are namespaced under ratelimit:.
+   */
+  async consumeRateLimits(
+    buckets: RateLimitBucket[],
+    now: number = Date.now()
+  ): Promise<{ allowed: boolean; buckets: RateLimitBucketState[] }> {
+    const reply = (await this.runScript(RATE_LIMIT_SCRIPT, {
+      keys: buckets.map((bucket) => `${this.RATE_LIMIT_PREFIX}${bucket.key}`),
+      arguments: [
+        now.toString(),
+        ...buckets.flatMap((bucket) => [
+          bucket.limit.toString(),
+          (bucket.windowSeconds * 1000).toString(),
+        ]),
+      ],
+    })) as number[];
+
+    return {
+      allowed: reply[0] === 1,
+      buckets: buckets.map((_, i) => ({
+        remaining: reply[1 + 3 * i],
+        retryAfterMs: reply[2 + 3 * i],
+        resetMs: reply[3 + 3 * i],
+      })),
+    };
+  }
+
+  /**
+   * Remove a player from a board's all-time leaderboard and the given
+   * periods, and from any copies of them a rebuild is building. Returns the
+   * removed all-time score, or null if the player had none.
+   */
+  async removePlayer(
+    boardId: string,
+    playerId: string,
+    periods: WindowPeriod[] = []
+  ): Promise<number | null> {
+    const removed = await this.runScript(REMOVE_PLAYER_SCRIPT, {
+      keys: [...this.boardKeys(boardId, periods), ...this.boardKeys(boardId, periods, true)],
+      arguments: [playerId],
+    });
+    return removed === null ? null : (removed as number);
+  }
+
+  /**
+   * Override a player's score on a board's all-time leaderboard and on the
+   * given periods (and rebuild copies) that rank the player, regardless of
+   * the aggregation policy. Returns the previous all-time score, or null
+   * (and changes nothing) if the player has none.
+   */
+  async setPlayerScore(
+    boardId: string,
+    playerId: string,
+    score: number,
+    periods: WindowPeriod[] = []
+  ): Promise<number | null> {
+    const previous = await this.runScript(SET_SCORE_SCRIPT, {
+      keys: [...this.boardKeys(boardId, periods), ...this.boardKeys(boardId, periods, true)],
+      arguments: [playerId, score.toString(), TIE_RANGE.toString()],
+    });
+    return previous === null ? null : (previous as number);
+  }
+
+  /**
+   * Ban a player. Returns false if the player was already banned, in which
+   * case the existing ban is kept.
+   */
+  async banPlayer(ban: PlayerBan): Promise<boolean> {
+    const added = await this.client.hSetNX(
+      this.BANNED_PLAYERS_KEY,
+      ban.player_id,
+      JSON.stringify(ban)
+    );
+    return Boolean(added);
+  }
+
+  /**
+   * Lift a player's ban. Returns false if the player was not banned.
+   */
+  async unbanPlayer(playerId: string): Promise<boolean> {
+    return (await this.client.hDel(this.BANNED_PLAYERS_KEY, playerId)) > 0;
+  }
+
+  async getBan(playerId: string): Promise<PlayerBan | null> {
+    const ban = await this.client.hGet(this.BANNED_PLAYERS_KEY, playerId);
+    return ban ? JSON.parse(ban) : null;
+  }
+
+  async getBans(): Promise<PlayerBan[]> {
+    const bans = await this.client.hVals(this.BANNED_PLAYERS_KEY);
+    return bans.map((ban) => JSON.parse(ban));
+  }
+
+  /**
+   * Append an entry to the audit log stream, trimming it to about
+   * maxEntries. Returns the entry's id.
+   */
+  async appendAuditEntry(entry: Omit<AuditEntry, 'id'>, maxEntries: number): Promise<string> {
+    return await this.client.xAdd(
+      this.AUDIT_LOG_KEY,
+      '*',
+      { entry: JSON.stringify(entry) },
+      { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: maxEntries } }
+    );
+  }
+
+  /**
+   * Get up to count audit entries, newest first, older than the entry with
+   * id before (or the newest when not given)
+   */
+  async getAuditEntries(before: string | undefined, count: number): Promise<AuditEntry[]> {
+    const messages = await this.client.xRevRange(
+      this.AUDIT_LOG_KEY,
+      before !== undefined ? `(${before}` : '+',
+      '-',
+      { COUNT: count }
+    );
+    return messages.map(({ id, message }) => ({ id, ...JSON.parse(message.entry) }));
+  }
+}
@@ -0,0 +1,266 @@
+import { Request, Response } from 'express';
+import { LeaderboardBroadcast, LeaderboardChange, LeaderboardFeedMessage } from '../types';
+import { LeaderboardFeedService } from './LeaderboardFeedService';
+
+export class TooManyStreamsError extends Error {
+  constructor(maxConnections: number) {
+    super(`At most ${maxConnections} streams can be open`);
+    this.name = 'TooManyStreamsError';
+  }
+}
+
+export interface ServerSentEventsLimits {
+  maxConnections: number;
+  // Bytes queued for a stream above which it misses leaderboard updates
+  maxBufferedBytes: number;
+  // Interval of the comment lines keeping idle streams open through proxies
+  heartbeatIntervalMs: number;
+}
+
+export const DEFAULT_SERVER_SENT_EVENTS_LIMITS: ServerSentEventsLimits = {
+  maxConnections: 10000,
+  maxBufferedBytes: 1024 * 1024,
+  heartbeatIntervalMs: 15000,
+};
+
+/**
+ * What a stream receives from its board: leaderboard updates limited to
+ * the top N (null for none), and score changes of individual players
+ */
+export interface StreamFilter {
+  boardId: string;
+  top: number | null;
+  playerIds: string[];
+}
+
+interface StreamClient {
+  res: Response;
+  filter: StreamFilter;
+  players: Set<string>;
+  // Leaderboard version the client holds, -1 for none
+  version: number;
+}
+
+/**
+ * Leaderboard updates over Server-Sent Events, for clients that cannot
+ * hold a WebSocket. A stream follows one board with the filters of a
+ * WebSocket subscription and receives the same snapshots, deltas and
+ * player updates.
+ *
+ * Leaderboard events carry their version as event id, so a reconnecting
+ * EventSource resumes with Last-Event-ID: it gets a delta from that
+ * version, or a snapshot when the version is no longer in the history.
+ * Streams that fall behind (slow, or connected while the board changed)
+ * are sent a snapshot with the board's next change instead of a delta
+ * they could not apply.
+ */
+export class ServerSentEventsService {
+  private clients: Set<StreamClient> = new Set();
+  private feedService: LeaderboardFeedService;
+  private limits: ServerSentEventsLimits;
+  private heartbeat: NodeJS.Timeout | null = null;
+  // Delay before an EventSource reconnects
+  private readonly RETRY_MS = 3000;
+
+  constructor(
+    feedService: LeaderboardFeedService,
+    limits: ServerSentEventsLimits = DEFAULT_SERVER_SENT_EVENTS_LIMITS
+  ) {
+    this.feedService = feedService;
+    this.limits = limits;
+  }
+
+  /**
+   * Start a stream on the response, beginning with the board's current
+   * state or, when resuming, what changed since lastEventId
+   */
+  async open(
+    req: Request,
+    res: Response,
+    filter: StreamFilter,
+    lastEventId: number | null
+  ): Promise<void> {
+    if (this.clients.size >= this.limits.maxConnections) {
+      throw new TooManyStreamsError(this.limits.maxConnections);
+    }
+
+    const { boardId, top } = filter;
+    const initial =
+      top === null
+        ? null
+        : lastEventId !== null
+          ? await this.feedService.replay(boardId, lastEventId, top)
+          : await this.feedService.loadSnapshot(boardId, top);
+
+    // The client may have gone while the board loaded
+    if (req.destroyed) {
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Keep nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${this.RETRY_MS}\n\n`);
+
+    const client: StreamClient = {
+      res,
+      filter,
+      players: new Set(filter.playerIds),
+      version: lastEventId ?? -1,
+    };
+    this.clients.add(client);
+    req.on('close', () => {
+      this.clients.delete(client);
+      console.log(`[SSE] Client disconnected. Total streams: ${this.clients.size}`);
+    });
+    console.log(`[SSE] New stream of board ${boardId}. Total streams: ${this.clients.size}`);
+
+    if (initial) {
+      this.sendLeaderboard(client, initial);
+    }
+
+    // A version broadcast while the board loaded
+    const latest = this.feedService.latest(boardId);
+    if (top !== null && latest && latest.version > client.version) {
+      this.sendLeaderboard(client, this.feedService.snapshotMessage(latest, top));
+    }
+  }
+
+  /**
+   * Deliver a board's new version to the streams following it, as a delta
+   * of each one's top N
+   */
+  broadcast(data: LeaderboardBroadcast): void {
+    const tracked = this.feedService.track(data);
+    if (!tracked) {
+      return;
+    }
+
+    let sentCount = 0;
+    let slowCount = 0;
+
+    this.clients.forEach((client) => {
+      const { boardId, top } = client.filter;
+      if (boardId !== data.board_id || top === null) {
+        return;
+      }
+
+      const message = this.feedService.messageFor(tracked, top);
+      if (message === null) {
+        return;
+      }
+
+      // Slow streams miss the update; their next one is a snapshot
+      if (this.isSlow(client)) {
+        slowCount++;
+        return;
+      }
+
+      this.sendLeaderboard(
+        client,
+        message.type === 'leaderboard_delta' && message.data.base_version > client.version
+          ? this.feedService.snapshotMessage(tracked.broadcast, top)
+          : message
+      );
+      sentCount++;
+    });
+
+    console.log(
+      `[SSE] Broadcasted version ${data.version} of board ${data.board_id} to ` +
+        `${sentCount} streams (${slowCount} slow)`
+    );
+  }
+
+  /**
+   * Deliver a player's score change to the streams following that player
+   * on the board
+   */
+  notifyScoreChange(change: LeaderboardChange): void {
+    this.clients.forEach((client) => {
+      if (
+        client.filter.boardId === change.board_id &&
+        client.players.has(change.player_id) &&
+        !this.isSlow(client)
+      ) {
+        // No id, so that Last-Event-ID stays the leaderboard version
+        this.write(client, `event: player_update\ndata: ${JSON.stringify(change)}\n\n`);
+      }
+    });
+  }
+
+  /**
+   * Send a leaderboard message the client does not hold yet
+   */
+  private sendLeaderboard(client: StreamClient, message: LeaderboardFeedMessage): void {
+    const { version } = message.data;
+    if (version <= client.version) {
+      return;
+    }
+
+    client.version = version;
+    this.write(
+      client,
+      `id: ${version}\nevent: ${message.type}\ndata: ${JSON.stringify(message.data)}\n\n`
+    );
+  }
+
+  private write(client: StreamClient, chunk: string): void {
+    try {
+      client.res.write(chunk);
+    } catch (error) {
+      console.error('[SSE] Error writing to stream:', error);
+      this.clients.delete(client);
+    }
+  }
+
+  private isSlow(client: StreamClient): boolean {
+    return client.res.writableLength > this.limits.maxBufferedBytes;
+  }
+
+  /**
+   * Get number of open streams
+   */
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Send a comment line to every stream, so proxies keep idle ones open
+   */
+  sendHeartbeat(): void {
+    const heartbeat = `: heartbeat ${Date.now()}\n\n`;
+    this.clients.forEach((client) => {
+      if (!this.isSlow(client)) {
+        this.write(client, heartbeat);
+      }
+    });
+  }
+
+  /**
+   * Start periodic heartbeat (every heartbeatIntervalMs, 15 seconds by
+   * default)
+   */
+  startHeartbeat(): void {
+    this.heartbeat = setInterval(() => {
+      this.sendHeartbeat();
+    }, this.limits.heartbeatIntervalMs);
+  }
+
+  /**
+   * End all streams
+   */
+  close(): void {
+    console.log('[SSE] Closing all streams...');
+
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.clients.forEach((client) => client.res.end());
+    this.clients.clear();
+  }
+}
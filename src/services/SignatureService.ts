@@ -0,0 +1,164 @@
+import { SignedRequest, SigningClient } from '../types';
+import { RedisService } from './RedisService';
+import { createHmac, timingSafeEqual } from 'crypto';
+import Joi from 'joi';
+
+/**
+ * The request is not authenticated: signature headers are missing or
+ * malformed, the client is unknown, or the signature is wrong or stale
+ */
+export class InvalidSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+/**
+ * The signature is valid but the request is refused: its nonce was already
+ * used, or the client may not submit to the board
+ */
+export class SignatureRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignatureRejectedError';
+  }
+}
+
+const SIGNATURE_PATTERN = /^sha256=([0-9a-f]{64})$/;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const TIMESTAMP_PATTERN = /^\d{1,12}$/;
+
+// Shape of SIGNING_CLIENTS, keyed by client id
+const signingClientsSchema = Joi.object().pattern(
+  Joi.string().pattern(/^[A-Za-z0-9_.-]+$/).max(64),
+  Joi.object({
+    secrets: Joi.array().items(Joi.string().min(32)).min(1).required(),
+    boards: Joi.array().items(Joi.string()).min(1).allow(null).default(null),
+  })
+);
+
+/**
+ * Parse the SIGNING_CLIENTS configuration, e.g.
+ * {"game-eu": {"secrets": ["<new>", "<old>"], "boards": ["ranked-eu"]}}
+ */
+export function parseSigningClients(json: string | undefined): Map<string, SigningClient> {
+  if (!json) {
+    return new Map();
+  }
+
+  const { error, value } = signingClientsSchema.validate(JSON.parse(json));
+  if (error) {
+    throw new Error(`Invalid SIGNING_CLIENTS: ${error.message}`);
+  }
+
+  return new Map(Object.entries(value as Record<string, SigningClient>));
+}
+
+/**
+ * Compute the signature of a request, in the format of the X-Signature
+ * header. The signed string is the timestamp, nonce, method, path and raw
+ * body joined by newlines.
+ */
+export function computeSignature(
+  secret: string,
+  request: Pick<SignedRequest, 'timestamp' | 'nonce' | 'method' | 'path' | 'body'>
+): string {
+  const hmac = createHmac('sha256', secret);
+  hmac.update(
+    `${request.timestamp}\n${request.nonce}\n${request.method.toUpperCase()}\n${request.path}\n`
+  );
+  hmac.update(request.body);
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/**
+ * Verifies HMAC signatures of score submissions from trusted clients.
+ *
+ * A signature is accepted for toleranceSeconds either side of the server
+ * clock, and each nonce once per client within that span, so a captured
+ * request cannot be replayed. Verification is disabled when no clients are
+ * configured.
+ */
+export class SignatureService {
+  private redisService: RedisService;
+  private clients: Map<string, SigningClient>;
+  private readonly toleranceSeconds: number;
+
+  constructor(
+    redisService: RedisService,
+    clients: Map<string, SigningClient>,
+    toleranceSeconds: number = 300
+  ) {
+    this.redisService = redisService;
+    this.clients = clients;
+    this.toleranceSeconds = toleranceSeconds;
+  }
+
+  isEnabled(): boolean {
+    return this.clients.size > 0;
+  }
+
+  /**
+   * Verify a request to submit to a board. Returns the id of the client
+   * that signed it.
+   */
+  async verify(request: SignedRequest, boardId: string): Promise<string> {
+    const { clientId, timestamp, nonce, signature } = request;
+
+    if (!clientId || !timestamp || !nonce || !signature) {
+      throw new InvalidSignatureError(
+        'X-Client-Id, X-Signature-Timestamp, X-Signature-Nonce and X-Signature headers are required'
+      );
+    }
+    if (!TIMESTAMP_PATTERN.test(timestamp)) {
+      throw new InvalidSignatureError('X-Signature-Timestamp must be a Unix time in seconds');
+    }
+    if (!NONCE_PATTERN.test(nonce)) {
+      throw new InvalidSignatureError(
+        'X-Signature-Nonce must be 16 to 128 letters, digits, "_" or "-"'
+      );
+    }
+    if (!SIGNATURE_PATTERN.test(signature)) {
+      throw new InvalidSignatureError('X-Signature must be sha256=<hex digest>');
+    }
+
+    const client = this.clients.get(clientId);
+    if (!client) {
+      throw new InvalidSignatureError(`Unknown client ${clientId}`);
+    }
+
+    const skewSeconds = Math.abs(Date.now() / 1000 - parseInt(timestamp, 10));
+    if (skewSeconds > this.toleranceSeconds) {
+      throw new InvalidSignatureError(
+        `Signature timestamp is outside the allowed ${this.toleranceSeconds}s window`
+      );
+    }
+
+    // Any current secret may have signed the request while one is rotated
+    const expected = Buffer.from(signature);
+    const matches = client.secrets.some((secret) =>
+      timingSafeEqual(Buffer.from(computeSignature(secret, request)), expected)
+    );
+    if (!matches) {
+      throw new InvalidSignatureError('Signature does not match');
+    }
+
+    if (client.boards !== null && !client.boards.includes(boardId)) {
+      throw new SignatureRejectedError(`Client ${clientId} may not submit to board ${boardId}`);
+    }
+
+    // Timestamps are accepted on both sides of now, so a nonce must be
+    // remembered for the full span
+    const fresh = await this.redisService.claimSignatureNonce(
+      clientId,
+      nonce,
+      2 * this.toleranceSeconds
+    );
+    if (!fresh) {
+      throw new SignatureRejectedError('Nonce was already used');
+    }
+
+    return clientId;
+  }
+}
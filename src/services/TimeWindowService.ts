@@ -0,0 +1,261 @@
+import { RedisService, WINDOW_GRACE_SECONDS } from './RedisService';
+import { ActiveWindowPeriod, TimeWindow, TIME_WINDOWS } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Monday ... 6 = Sunday
+}
+
+/**
+ * Computes daily / weekly / monthly periods on the configured timezone's
+ * calendar and archives the final standing of periods once they close.
+ *
+ * Period ids:
+ *   daily   - 2026-10-19
+ *   weekly  - 2026-W42 (ISO 8601 week)
+ *   monthly - 2026-10
+ */
+export class TimeWindowService {
+  private redisService: RedisService;
+  private readonly timeZone: string;
+  private readonly archiveRetentionSeconds: number;
+  private formatter: Intl.DateTimeFormat;
+
+  private readonly PERIOD_PATTERNS: Record<TimeWindow, RegExp> = {
+    daily: /^\d{4}-\d{2}-\d{2}$/,
+    weekly: /^\d{4}-W\d{2}$/,
+    monthly: /^\d{4}-\d{2}$/,
+  };
+
+  constructor(
+    redisService: RedisService,
+    timeZone: string = 'UTC',
+    archiveRetentionSeconds: number = 0
+  ) {
+    this.redisService = redisService;
+    this.timeZone = timeZone;
+    this.archiveRetentionSeconds = archiveRetentionSeconds;
+
+    // Throws a RangeError for unknown timezones, failing fast at startup
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+  }
+
+  /**
+   * Get the current period of every window
+   */
+  getActivePeriods(now: number = Date.now()): ActiveWindowPeriod[] {
+    return TIME_WINDOWS.map((window) => this.getPeriodAt(window, now));
+  }
+
+  /**
+   * Get the current periods that also contain the given instant, e.g. to
+   * apply a submission accepted earlier only to periods still open
+   */
+  getActivePeriodsContaining(instant: number, now: number = Date.now()): ActiveWindowPeriod[] {
+    return this.getActivePeriods(now).filter(
+      (active) => this.getPeriodAt(active.window, instant).period === active.period
+    );
+  }
+
+  /**
+   * Get the period of a window that contains the given instant
+   */
+  getPeriodAt(window: TimeWindow, instant: number): ActiveWindowPeriod {
+    const date = this.toLocalDate(instant);
+
+    switch (window) {
+      case 'daily':
+        return {
+          window,
+          period: `${date.year}-${this.pad(date.month)}-${this.pad(date.day)}`,
+          endsAt: this.localMidnightToInstant(date.year, date.month, date.day + 1),
+        };
+      case 'weekly': {
+        const weekStart = date.day - date.weekday;
+        return {
+          window,
+          period: this.isoWeekId(date),
+          endsAt: this.localMidnightToInstant(date.year, date.month, weekStart + 7),
+        };
+      }
+      case 'monthly':
+        return {
+          window,
+          period: `${date.year}-${this.pad(date.month)}`,
+          endsAt: this.localMidnightToInstant(date.year, date.month + 1, 1),
+        };
+    }
+  }
+
+  /**
+   * Get the period of a window that closed most recently
+   */
+  getPreviousPeriod(window: TimeWindow, now: number = Date.now()): ActiveWindowPeriod {
+    const currentStart = this.getPeriodStart(window, now);
+    return this.getPeriodAt(window, currentStart - 1);
+  }
+
+  /**
+   * Get the closed periods of a window whose leaderboards have not expired
+   * yet, most recent first
+   */
+  getUnexpiredClosedPeriods(window: TimeWindow, now: number = Date.now()): ActiveWindowPeriod[] {
+    const periods: ActiveWindowPeriod[] = [];
+
+    let period = this.getPreviousPeriod(window, now);
+    while (period.endsAt + WINDOW_GRACE_SECONDS * 1000 > now) {
+      periods.push(period);
+      period = this.getPreviousPeriod(window, period.endsAt - 1);
+    }
+
+    return periods;
+  }
+
+  /**
+   * Check that a period id is well-formed for its window
+   */
+  isValidPeriod(window: TimeWindow, period: string): boolean {
+    return this.PERIOD_PATTERNS[window].test(period);
+  }
+
+  /**
+   * Archive the final standing of every board's closed periods that are
+   * not archived yet, as far back as their leaderboards have not expired.
+   * Safe to run repeatedly and from several instances.
+   */
+  async rolloverClosedPeriods(now: number = Date.now()): Promise<void> {
+    const boards = await this.redisService.getBoards();
+
+    for (const window of TIME_WINDOWS) {
+      for (const closed of this.getUnexpiredClosedPeriods(window, now)) {
+        for (const boardId of boards) {
+          const archived = await this.redisService.archivePeriod(
+            boardId,
+            closed,
+            this.archiveRetentionSeconds
+          );
+
+          if (archived) {
+            console.log(
+              `[TimeWindow] Archived final standing of board ${boardId} for ${window}/${closed.period}`
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Start periodic rollover checks (every minute by default)
+   */
+  startRollover(intervalMs: number = 60000): NodeJS.Timeout {
+    const run = () =>
+      this.rolloverClosedPeriods().catch((error) =>
+        console.error('[TimeWindow] Error during period rollover:', error)
+      );
+
+    // Catch up on periods that closed while the service was down, up to
+    // WINDOW_GRACE_SECONDS back
+    run();
+    return setInterval(run, intervalMs);
+  }
+
+  /**
+   * Start instant of the period containing the given instant
+   */
+  private getPeriodStart(window: TimeWindow, instant: number): number {
+    const date = this.toLocalDate(instant);
+
+    switch (window) {
+      case 'daily':
+        return this.localMidnightToInstant(date.year, date.month, date.day);
+      case 'weekly':
+        return this.localMidnightToInstant(date.year, date.month, date.day - date.weekday);
+      case 'monthly':
+        return this.localMidnightToInstant(date.year, date.month, 1);
+    }
+  }
+
+  /**
+   * ISO 8601 week id of a local calendar date
+   */
+  private isoWeekId(date: LocalDate): string {
+    // The ISO week belongs to the year of its Thursday
+    const thursday = new Date(Date.UTC(date.year, date.month - 1, date.day - date.weekday + 3));
+    const isoYear = thursday.getUTCFullYear();
+    const dayOfYear = (thursday.getTime() - Date.UTC(isoYear, 0, 1)) / DAY_MS;
+    const week = Math.floor(dayOfYear / 7) + 1;
+    return `${isoYear}-W${this.pad(week)}`;
+  }
+
+  /**
+   * Calendar date of an instant in the configured timezone
+   */
+  private toLocalDate(instant: number): LocalDate {
+    const wall = this.wallClockAsUtc(instant);
+    const date = new Date(wall);
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      weekday: (date.getUTCDay() + 6) % 7,
+    };
+  }
+
+  /**
+   * Instant at which local midnight of the given date occurs.
+   * Day and month overflow roll over like Date.UTC does.
+   */
+  private localMidnightToInstant(year: number, month: number, day: number): number {
+    const wall = Date.UTC(year, month - 1, day);
+    // Two passes settle the offset across DST transitions
+    let instant = wall - this.offsetAt(wall);
+    instant = wall - this.offsetAt(instant);
+    return instant;
+  }
+
+  /**
+   * Offset of the configured timezone from UTC at an instant, in ms
+   */
+  private offsetAt(instant: number): number {
+    return this.wallClockAsUtc(instant) - Math.floor(instant / 1000) * 1000;
+  }
+
+  /**
+   * Local wall-clock time of an instant, expressed as if it were UTC
+   */
+  private wallClockAsUtc(instant: number): number {
+    const parts: Record<string, number> = {};
+    for (const part of this.formatter.formatToParts(new Date(instant))) {
+      if (part.type !== 'literal') {
+        parts[part.type] = parseInt(part.value, 10);
+      }
+    }
+
+    return Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    );
+  }
+
+  private pad(value: number): string {
+    return value.toString().padStart(2, '0');
+  }
+}
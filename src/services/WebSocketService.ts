@@ -1,13 +1,136 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
-import { EnhancedLeaderboardEntry } from '../types';
+import { IncomingMessage, Server } from 'http';
+import { DEFAULT_BOARD_ID, LeaderboardBroadcast, LeaderboardChange, Principal } from '../types';
+import { AuthService, InvalidCredentialsError, hasRole } from './AuthService';
+import { LeaderboardFeedService } from './LeaderboardFeedService';
+import Joi from 'joi';
+
+/**
+ * Limits on what a single connection may subscribe to
+ */
+export const MAX_SUBSCRIBED_BOARDS = 20;
+export const MAX_SUBSCRIBED_PLAYERS = 100;
+
+/**
+ * What happens to leaderboard updates for a connection whose send buffer
+ * is over the limit: dropped (the client sees the version gap and asks for
+ * a replay), or coalesced into one snapshot per board sent once the buffer
+ * drains
+ */
+export type SlowConsumerPolicy = 'drop' | 'coalesce';
+
+export interface WebSocketLimits {
+  maxConnections: number;
+  maxConnectionsPerIp: number;
+  // Largest inbound message; larger ones close the connection with 1009
+  maxMessageBytes: number;
+  // Bytes queued for a connection above which it counts as slow
+  maxBufferedBytes: number;
+  slowConsumerPolicy: SlowConsumerPolicy;
+  // Heartbeat and ping interval; peers that miss a ping are terminated
+  pingIntervalMs: number;
+}
+
+export const DEFAULT_WEBSOCKET_LIMITS: WebSocketLimits = {
+  maxConnections: 10000,
+  maxConnectionsPerIp: 20,
+  maxMessageBytes: 16 * 1024,
+  maxBufferedBytes: 1024 * 1024,
+  slowConsumerPolicy: 'coalesce',
+  pingIntervalMs: 30000,
+};
+
+/**
+ * What a connection receives from one board: leaderboard updates limited
+ * to the top N (null for none), and score changes of individual players
+ */
+interface BoardSubscription {
+  top: number | null;
+  players: Set<string>;
+}
+
+const boardIdSchema = Joi.string()
+  .pattern(/^[A-Za-z0-9_-]+$/)
+  .max(64)
+  .default(DEFAULT_BOARD_ID);
+
+// Validation schema for subscribe messages
+const subscribeSchema = Joi.object({
+  type: Joi.string(),
+  board_id: boardIdSchema,
+  top: Joi.number().integer().min(1).max(10),
+  player_ids: Joi.array()
+    .items(Joi.string().min(1).max(255))
+    .max(MAX_SUBSCRIBED_PLAYERS)
+    .default([]),
+});
+
+// Validation schema for unsubscribe messages
+const unsubscribeSchema = Joi.object({
+  type: Joi.string(),
+  board_id: boardIdSchema,
+  player_ids: Joi.array().items(Joi.string().min(1).max(255)),
+});
+
+// Validation schemas for snapshot and replay requests
+const snapshotSchema = Joi.object({
+  type: Joi.string(),
+  board_id: boardIdSchema,
+});
+
+const replaySchema = snapshotSchema.keys({
+  from_version: Joi.number().integer().min(0).required(),
+});
 
 export class WebSocketService {
   private wss: WebSocketServer;
   private clients: Set<WebSocket> = new Set();
+  // Player each connection identified as, and the connections of each player
+  private socketPlayers: Map<WebSocket, string> = new Map();
+  private playerSockets: Map<string, Set<WebSocket>> = new Map();
+  // Each connection's subscriptions by board, and the connections following
+  // each board's player, for routing score changes
+  private subscriptions: Map<WebSocket, Map<string, BoardSubscription>> = new Map();
+  private playerSubscribers: Map<string, Set<WebSocket>> = new Map();
+  // Caller of each connection, resolved from the upgrade request
+  private principals: Map<WebSocket, Principal> = new Map();
+  private authService: AuthService;
+  private feedService: LeaderboardFeedService;
+  private limits: WebSocketLimits;
+  // Peer address of each connection, and connection count per address
+  private socketIps: Map<WebSocket, string> = new Map();
+  private ipConnections: Map<string, number> = new Map();
+  // Connections that have not answered the last ping
+  private unresponsive: Set<WebSocket> = new Set();
+  // Boards with a coalesced update waiting for a slow connection, and the
+  // timer retrying the flush
+  private pendingBoards: Map<WebSocket, Set<string>> = new Map();
+  private flushTimers: Map<WebSocket, NodeJS.Timeout> = new Map();
+  private readonly FLUSH_RETRY_MS = 100;
+  // Snapshots being loaded for each connection, by board; updates of those
+  // boards are held back until the snapshot is sent
+  private loadingSnapshots: Map<WebSocket, Map<string, number>> = new Map();
+  // Client address of an upgrade request
+  private resolveClientIp: (req: IncomingMessage) => string;
 
-  constructor(server: Server) {
-    this.wss = new WebSocketServer({ server, path: '/leaderboard' });
+  constructor(
+    server: Server,
+    authService: AuthService,
+    feedService: LeaderboardFeedService,
+    limits: WebSocketLimits = DEFAULT_WEBSOCKET_LIMITS,
+    resolveClientIp: (req: IncomingMessage) => string = (req) =>
+      req.socket.remoteAddress ?? 'unknown'
+  ) {
+    this.authService = authService;
+    this.feedService = feedService;
+    this.limits = limits;
+    this.resolveClientIp = resolveClientIp;
+    this.wss = new WebSocketServer({
+      server,
+      path: '/leaderboard',
+      maxPayload: limits.maxMessageBytes,
+      verifyClient: (info, done) => this.verifyCapacity(info.req, done),
+    });
     this.setupWebSocketServer();
   }
 
@@ -16,10 +139,21 @@ export class WebSocketService {
    */
   private setupWebSocketServer(): void {
     this.wss.on('connection', (ws: WebSocket, req) => {
-      const clientIp = req.socket.remoteAddress;
+      const clientIp = this.resolveClientIp(req);
       console.log(`[WebSocket] New client connected from ${clientIp}`);
-      
+
+      try {
+        this.principals.set(ws, this.authenticate(req));
+      } catch (error) {
+        console.warn(`[WebSocket] Rejected client from ${clientIp}:`, (error as Error).message);
+        ws.close(1008, 'Invalid credentials');
+        return;
+      }
+
       this.clients.add(ws);
+      this.socketIps.set(ws, clientIp);
+      this.ipConnections.set(clientIp, (this.ipConnections.get(clientIp) ?? 0) + 1);
+      ws.on('pong', () => this.unresponsive.delete(ws));
       console.log(`[WebSocket] Total clients: ${this.clients.size}`);
 
       // Send welcome message
@@ -31,6 +165,13 @@ export class WebSocketService {
         })
       );
 
+      // Follow the default board's top 10 from the start, beginning with its
+      // current state
+      if (this.isReader(ws)) {
+        this.subscriptions.set(ws, new Map([[DEFAULT_BOARD_ID, { top: 10, players: new Set() }]]));
+        void this.sendSnapshot(ws, DEFAULT_BOARD_ID, 10);
+      }
+
       // Handle client messages
       ws.on('message', (message: Buffer) => {
         try {
@@ -49,7 +190,7 @@ export class WebSocketService {
 
       // Handle client disconnection
       ws.on('close', () => {
-        this.clients.delete(ws);
+        this.removeClient(ws);
         console.log(
           `[WebSocket] Client disconnected. Total clients: ${this.clients.size}`
         );
@@ -58,13 +199,88 @@ export class WebSocketService {
       // Handle errors
       ws.on('error', (error) => {
         console.error('[WebSocket] Client error:', error);
-        this.clients.delete(ws);
+        this.removeClient(ws);
       });
     });
 
     console.log('[WebSocket] Server initialized on path /leaderboard');
   }
 
+  /**
+   * Refuse the handshake when the instance or the client's address is at
+   * its connection cap. Answering synchronously lets ws complete the
+   * upgrade right away, so the connection is counted before the next
+   * handshake is checked.
+   */
+  private verifyCapacity(
+    req: IncomingMessage,
+    done: (accepted: boolean, code?: number, message?: string) => void
+  ): void {
+    const clientIp = this.resolveClientIp(req);
+
+    if (this.clients.size >= this.limits.maxConnections) {
+      console.warn(`[WebSocket] Rejected client from ${clientIp}: too many connections`);
+      done(false, 503, 'Too many connections');
+      return;
+    }
+    if ((this.ipConnections.get(clientIp) ?? 0) >= this.limits.maxConnectionsPerIp) {
+      console.warn(`[WebSocket] Rejected client from ${clientIp}: too many from its address`);
+      done(false, 429, 'Too many connections');
+      return;
+    }
+
+    done(true);
+  }
+
+  /**
+   * Resolve the caller from the upgrade request's X-API-Key or
+   * Authorization header, like the HTTP API, or from an access_token query
+   * parameter, since browsers cannot set headers on WebSocket requests
+   */
+  private authenticate(req: IncomingMessage): Principal {
+    const authorization = req.headers.authorization;
+    const bearer = authorization?.match(/^Bearer\s+(\S+)$/i);
+
+    if (authorization !== undefined && !bearer) {
+      throw new InvalidCredentialsError('Authorization header must be "Bearer <token>"');
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+
+    return this.authService.authenticate({
+      apiKey: typeof apiKey === 'string' ? apiKey : undefined,
+      bearerToken: bearer?.[1] ?? query.get('access_token') ?? undefined,
+    });
+  }
+
+  /**
+   * Forget a closed connection
+   */
+  private removeClient(ws: WebSocket): void {
+    this.clients.delete(ws);
+    this.principals.delete(ws);
+    this.unresponsive.delete(ws);
+    this.pendingBoards.delete(ws);
+    this.loadingSnapshots.delete(ws);
+    clearTimeout(this.flushTimers.get(ws));
+    this.flushTimers.delete(ws);
+
+    const ip = this.socketIps.get(ws);
+    if (ip !== undefined) {
+      this.socketIps.delete(ws);
+      const remaining = (this.ipConnections.get(ip) ?? 1) - 1;
+      if (remaining > 0) {
+        this.ipConnections.set(ip, remaining);
+      } else {
+        this.ipConnections.delete(ip);
+      }
+    }
+
+    this.forgetPlayer(ws);
+    this.forgetSubscriptions(ws);
+  }
+
   /**
    * Handle messages from clients
    */
@@ -75,12 +291,51 @@ export class WebSocketService {
       case 'ping':
         ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
         break;
+      case 'identify':
+        // Client tells which player it belongs to, for personal notifications
+        if (typeof data.player_id !== 'string' || data.player_id.length === 0) {
+          ws.send(
+            JSON.stringify({
+              type: 'error',
+              message: 'identify requires a player_id',
+            })
+          );
+          break;
+        }
+        if (!this.mayIdentifyAs(ws, data.player_id)) {
+          ws.send(
+            JSON.stringify({
+              type: 'error',
+              message: `Not allowed to identify as ${data.player_id}`,
+            })
+          );
+          break;
+        }
+        this.identifyPlayer(ws, data.player_id);
+        ws.send(
+          JSON.stringify({
+            type: 'identified',
+            player_id: data.player_id,
+          })
+        );
+        break;
       case 'subscribe':
-        // Client explicitly subscribes to updates
+        this.subscribe(ws, data);
+        break;
+      case 'unsubscribe':
+        this.unsubscribe(ws, data);
+        break;
+      case 'snapshot':
+      case 'replay':
+        void this.resync(ws, data);
+        break;
+      case 'subscriptions':
         ws.send(
           JSON.stringify({
-            type: 'subscribed',
-            message: 'Subscribed to leaderboard updates',
+            type: 'subscriptions',
+            subscriptions: Array.from(this.subscriptions.get(ws)?.keys() ?? []).map((boardId) =>
+              this.describeSubscription(ws, boardId)
+            ),
           })
         );
         break;
@@ -95,23 +350,292 @@ export class WebSocketService {
   }
 
   /**
-   * Broadcast leaderboard update to all connected clients
+   * Subscribe a connection to a board's top N and/or players on it. Without
+   * either, the board's top 10 is subscribed. Repeated subscriptions to a
+   * board change its top N and add players.
    */
-  broadcast(data: {
-    leaderboard: EnhancedLeaderboardEntry[];
-    timestamp: number;
-    checksum: string;
-    changedRankings?: any[];
-  }): void {
-    const message = JSON.stringify({
-      type: 'leaderboard_update',
-      data,
-    });
+  private subscribe(ws: WebSocket, data: any): void {
+    if (!this.isReader(ws)) {
+      this.sendToClient(ws, { type: 'error', message: 'Subscribing requires the reader role' });
+      return;
+    }
+
+    const { error, value } = subscribeSchema.validate(data);
+    if (error) {
+      this.sendToClient(ws, { type: 'error', message: error.message });
+      return;
+    }
+
+    const { board_id: boardId, top, player_ids: playerIds } = value;
+    let boards = this.subscriptions.get(ws);
+    if (!boards) {
+      boards = new Map();
+      this.subscriptions.set(ws, boards);
+    }
+
+    const existing = boards.get(boardId);
+    const subscribedPlayers = Array.from(boards.values()).reduce(
+      (count, subscription) => count + subscription.players.size,
+      0
+    );
+    const newPlayers = (playerIds as string[]).filter((id) => !existing?.players.has(id));
+
+    if (!existing && boards.size >= MAX_SUBSCRIBED_BOARDS) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: `At most ${MAX_SUBSCRIBED_BOARDS} boards can be subscribed`,
+      });
+      return;
+    }
+    if (subscribedPlayers + newPlayers.length > MAX_SUBSCRIBED_PLAYERS) {
+      this.sendToClient(ws, {
+        type: 'error',
+        message: `At most ${MAX_SUBSCRIBED_PLAYERS} players can be subscribed`,
+      });
+      return;
+    }
+
+    const subscription: BoardSubscription = existing ?? { top: null, players: new Set() };
+    const previousTop = subscription.top;
+    if (top !== undefined) {
+      subscription.top = top;
+    } else if (playerIds.length === 0 && subscription.top === null) {
+      subscription.top = 10;
+    }
+    for (const playerId of newPlayers) {
+      subscription.players.add(playerId);
+      this.addToIndex(this.playerSubscribers, this.playerKey(boardId, playerId), ws);
+    }
+    boards.set(boardId, subscription);
+
+    this.sendToClient(ws, { type: 'subscribed', ...this.describeSubscription(ws, boardId) });
+
+    // Start a new or resized top N from the board's current state
+    if (subscription.top !== null && subscription.top !== previousTop) {
+      void this.sendSnapshot(ws, boardId, subscription.top);
+    }
+  }
+
+  /**
+   * Drop players from a connection's board subscription, or the whole
+   * board when no players are given
+   */
+  private unsubscribe(ws: WebSocket, data: any): void {
+    const { error, value } = unsubscribeSchema.validate(data);
+    if (error) {
+      this.sendToClient(ws, { type: 'error', message: error.message });
+      return;
+    }
+
+    const { board_id: boardId, player_ids: playerIds } = value;
+    const boards = this.subscriptions.get(ws);
+    const subscription = boards?.get(boardId);
+
+    if (boards && subscription) {
+      const removed: string[] = playerIds ?? Array.from(subscription.players);
+      for (const playerId of removed) {
+        subscription.players.delete(playerId);
+        this.removeFromIndex(this.playerSubscribers, this.playerKey(boardId, playerId), ws);
+      }
+      const isEmpty = subscription.top === null && subscription.players.size === 0;
+      if (playerIds === undefined || isEmpty) {
+        boards.delete(boardId);
+      }
+      if (boards.size === 0) {
+        this.subscriptions.delete(ws);
+      }
+    }
+
+    this.sendToClient(ws, { type: 'unsubscribed', ...this.describeSubscription(ws, boardId) });
+  }
+
+  /**
+   * A connection's subscription to a board as sent to the client
+   */
+  private describeSubscription(
+    ws: WebSocket,
+    boardId: string
+  ): { board_id: string; top: number | null; player_ids: string[] } {
+    const subscription = this.subscriptions.get(ws)?.get(boardId);
+    return {
+      board_id: boardId,
+      top: subscription?.top ?? null,
+      player_ids: Array.from(subscription?.players ?? []).sort(),
+    };
+  }
+
+  /**
+   * Drop all of a connection's subscriptions
+   */
+  private forgetSubscriptions(ws: WebSocket): void {
+    const boards = this.subscriptions.get(ws);
+    if (!boards) {
+      return;
+    }
+
+    for (const [boardId, subscription] of boards) {
+      for (const playerId of subscription.players) {
+        this.removeFromIndex(this.playerSubscribers, this.playerKey(boardId, playerId), ws);
+      }
+    }
+    this.subscriptions.delete(ws);
+  }
+
+  private playerKey(boardId: string, playerId: string): string {
+    return `${boardId}\u0000${playerId}`;
+  }
+
+  private addToIndex(index: Map<string, Set<WebSocket>>, key: string, ws: WebSocket): void {
+    let sockets = index.get(key);
+    if (!sockets) {
+      sockets = new Set();
+      index.set(key, sockets);
+    }
+    sockets.add(ws);
+  }
+
+  private removeFromIndex(index: Map<string, Set<WebSocket>>, key: string, ws: WebSocket): void {
+    const sockets = index.get(key);
+    sockets?.delete(ws);
+    if (sockets && sockets.size === 0) {
+      index.delete(key);
+    }
+  }
+
+  private isReader(ws: WebSocket): boolean {
+    const principal = this.principals.get(ws);
+    return principal !== undefined && hasRole(principal, 'reader');
+  }
+
+  /**
+   * Answer a snapshot request with the board's latest version, and a replay
+   * request with a delta from the client's version to the latest one. A
+   * version no longer in the history is answered with a snapshot.
+   */
+  private async resync(ws: WebSocket, data: any): Promise<void> {
+    if (!this.isReader(ws)) {
+      this.sendToClient(ws, { type: 'error', message: 'Resyncing requires the reader role' });
+      return;
+    }
+
+    const schema = data.type === 'replay' ? replaySchema : snapshotSchema;
+    const { error, value } = schema.validate(data);
+    if (error) {
+      this.sendToClient(ws, { type: 'error', message: error.message });
+      return;
+    }
+
+    const { board_id: boardId, from_version: fromVersion } = value;
+    const top = this.subscriptions.get(ws)?.get(boardId)?.top ?? 10;
+
+    if (fromVersion === undefined) {
+      await this.sendSnapshot(ws, boardId, top);
+      return;
+    }
+
+    try {
+      this.sendToClient(ws, await this.feedService.replay(boardId, fromVersion, top));
+    } catch (error) {
+      console.error(`[WebSocket] Failed to replay board ${boardId}:`, error);
+      this.sendToClient(ws, { type: 'error', message: 'Failed to load leaderboard history' });
+    }
+  }
+
+  /**
+   * Send the board's cached top N with usernames. Versions broadcast while
+   * it loads are not sent as deltas the client could not apply yet; a
+   * snapshot of the latest one follows instead.
+   */
+  private async sendSnapshot(ws: WebSocket, boardId: string, top: number): Promise<void> {
+    this.setLoading(ws, boardId, 1);
+    try {
+      const snapshot = await this.feedService.loadSnapshot(boardId, top);
+      this.sendToClient(ws, snapshot);
+
+      const latest = this.feedService.latest(boardId);
+      if (latest && latest.version > snapshot.data.version) {
+        this.sendToClient(ws, this.feedService.snapshotMessage(latest, top));
+      }
+    } catch (error) {
+      console.error(`[WebSocket] Failed to load leaderboard of board ${boardId}:`, error);
+      this.sendToClient(ws, { type: 'error', message: 'Failed to load leaderboard' });
+    } finally {
+      this.setLoading(ws, boardId, -1);
+    }
+  }
+
+  /**
+   * Count a snapshot of the board starting (1) or finishing (-1) loading
+   * for a connection
+   */
+  private setLoading(ws: WebSocket, boardId: string, change: 1 | -1): void {
+    const boards = this.loadingSnapshots.get(ws) ?? new Map<string, number>();
+    const count = (boards.get(boardId) ?? 0) + change;
+    if (count > 0) {
+      boards.set(boardId, count);
+    } else {
+      boards.delete(boardId);
+    }
+
+    if (boards.size > 0) {
+      this.loadingSnapshots.set(ws, boards);
+    } else {
+      this.loadingSnapshots.delete(ws);
+    }
+  }
+
+  /**
+   * Deliver a board's new version to the connections subscribed to it, as
+   * a delta of each one's top N. Subscribers whose top N did not change are
+   * skipped.
+   */
+  broadcast(data: LeaderboardBroadcast): void {
+    const tracked = this.feedService.track(data);
+    if (!tracked) {
+      console.log(`[WebSocket] Ignoring stale version ${data.version} of board ${data.board_id}`);
+      return;
+    }
+
+    // Serialized once per top-N size; null when that slice is unchanged
+    const messages = new Map<number, string | null>();
+    const messageFor = (top: number): string | null => {
+      if (!messages.has(top)) {
+        const message = this.feedService.messageFor(tracked, top);
+        messages.set(top, message && JSON.stringify(message));
+      }
+      return messages.get(top) ?? null;
+    };
 
     let successCount = 0;
     let failCount = 0;
+    let slowCount = 0;
+
+    this.subscriptions.forEach((boards, client) => {
+      const subscription = boards.get(data.board_id);
+      if (!subscription || subscription.top === null) {
+        return;
+      }
+
+      // The snapshot being loaded is followed by the latest version
+      if (this.loadingSnapshots.get(client)?.has(data.board_id)) {
+        return;
+      }
+
+      const message = messageFor(subscription.top);
+      if (message === null) {
+        return;
+      }
+
+      // A connection with a coalesced update waiting keeps coalescing, so
+      // its snapshot arrives before further deltas
+      if (this.isSlow(client) || this.pendingBoards.get(client)?.has(data.board_id)) {
+        if (this.limits.slowConsumerPolicy === 'coalesce') {
+          this.coalesce(client, data.board_id);
+        }
+        slowCount++;
+        return;
+      }
 
-    this.clients.forEach((client) => {
       if (client.readyState === WebSocket.OPEN) {
         try {
           client.send(message);
@@ -122,16 +646,97 @@ export class WebSocketService {
         }
       } else {
         // Remove closed connections
-        this.clients.delete(client);
+        this.removeClient(client);
         failCount++;
       }
     });
 
     console.log(
-      `[WebSocket] Broadcasted to ${successCount} clients (${failCount} failed)`
+      `[WebSocket] Broadcasted version ${data.version} of board ${data.board_id} to ` +
+        `${successCount} clients (${failCount} failed, ${slowCount} slow)`
+    );
+  }
+
+  /**
+   * Whether more than the allowed bytes are queued for a connection
+   */
+  private isSlow(client: WebSocket): boolean {
+    return client.bufferedAmount > this.limits.maxBufferedBytes;
+  }
+
+  /**
+   * Remember that a slow connection missed an update of the board, to send
+   * it the board's latest snapshot once its buffer drains
+   */
+  private coalesce(client: WebSocket, boardId: string): void {
+    let boards = this.pendingBoards.get(client);
+    if (!boards) {
+      boards = new Set();
+      this.pendingBoards.set(client, boards);
+    }
+    boards.add(boardId);
+    this.scheduleFlush(client);
+  }
+
+  private scheduleFlush(client: WebSocket): void {
+    if (this.flushTimers.has(client)) {
+      return;
+    }
+
+    this.flushTimers.set(
+      client,
+      setTimeout(() => {
+        this.flushTimers.delete(client);
+        this.flushCoalesced(client);
+      }, this.FLUSH_RETRY_MS)
     );
   }
 
+  /**
+   * Send a slow connection the latest snapshot of each board it missed
+   * updates of, or try again later while its buffer is still full
+   */
+  private flushCoalesced(client: WebSocket): void {
+    const boards = this.pendingBoards.get(client);
+    if (!boards || client.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    if (this.isSlow(client)) {
+      this.scheduleFlush(client);
+      return;
+    }
+
+    this.pendingBoards.delete(client);
+    for (const boardId of boards) {
+      const latest = this.feedService.latest(boardId);
+      const top = this.subscriptions.get(client)?.get(boardId)?.top;
+      if (latest && top) {
+        this.sendToClient(client, this.feedService.snapshotMessage(latest, top));
+      }
+    }
+  }
+
+  /**
+   * Deliver a player's score change to the connections subscribed to that
+   * player on the board
+   */
+  notifyScoreChange(change: LeaderboardChange): void {
+    const subscribers = this.playerSubscribers.get(
+      this.playerKey(change.board_id, change.player_id)
+    );
+    if (!subscribers) {
+      return;
+    }
+
+    // Slow connections miss score changes rather than queue more
+    const message = JSON.stringify({ type: 'player_update', data: change });
+    subscribers.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN && !this.isSlow(client)) {
+        client.send(message);
+      }
+    });
+  }
+
   /**
    * Send message to a specific client
    */
@@ -141,6 +746,76 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Associate a connection with a player, replacing any earlier identity
+   */
+  private identifyPlayer(ws: WebSocket, playerId: string): void {
+    this.forgetPlayer(ws);
+    this.socketPlayers.set(ws, playerId);
+
+    let sockets = this.playerSockets.get(playerId);
+    if (!sockets) {
+      sockets = new Set();
+      this.playerSockets.set(playerId, sockets);
+    }
+    sockets.add(ws);
+  }
+
+  /**
+   * Drop a connection's player association
+   */
+  private forgetPlayer(ws: WebSocket): void {
+    const playerId = this.socketPlayers.get(ws);
+    if (playerId === undefined) {
+      return;
+    }
+
+    this.socketPlayers.delete(ws);
+    const sockets = this.playerSockets.get(playerId);
+    sockets?.delete(ws);
+    if (sockets && sockets.size === 0) {
+      this.playerSockets.delete(playerId);
+    }
+  }
+
+  /**
+   * Players may identify as themselves, with a JWT whose subject is the
+   * player id. Submitters, e.g. game servers, may identify as any player.
+   */
+  private mayIdentifyAs(ws: WebSocket, playerId: string): boolean {
+    const principal = this.principals.get(ws);
+    return (
+      principal !== undefined &&
+      (principal.id === `jwt:${playerId}` || hasRole(principal, 'submitter'))
+    );
+  }
+
+  /**
+   * Players with an identified connection to this instance
+   */
+  getIdentifiedPlayers(): string[] {
+    return Array.from(this.playerSockets.keys());
+  }
+
+  /**
+   * Check whether a player has an identified connection to this instance
+   */
+  isPlayerConnected(playerId: string): boolean {
+    return this.playerSockets.has(playerId);
+  }
+
+  /**
+   * Send a message to every connection of a player
+   */
+  sendToPlayer(playerId: string, data: any): void {
+    // Slow connections miss notifications rather than queue more
+    this.playerSockets.get(playerId)?.forEach((client) => {
+      if (!this.isSlow(client)) {
+        this.sendToClient(client, data);
+      }
+    });
+  }
+
   /**
    * Get number of connected clients
    */
@@ -168,13 +843,26 @@ export class WebSocketService {
       }
     });
 
+    this.clients.forEach((client) => clearTimeout(this.flushTimers.get(client)));
     this.clients.clear();
+    this.principals.clear();
+    this.socketIps.clear();
+    this.ipConnections.clear();
+    this.unresponsive.clear();
+    this.pendingBoards.clear();
+    this.flushTimers.clear();
+    this.socketPlayers.clear();
+    this.playerSockets.clear();
+    this.subscriptions.clear();
+    this.playerSubscribers.clear();
     this.wss.close();
     console.log('[WebSocket] Server closed');
   }
 
   /**
-   * Send heartbeat to all clients to keep connections alive
+   * Send heartbeat to all clients to keep connections alive, and ping them
+   * at the protocol level. Connections that did not answer the previous
+   * ping are terminated.
    */
   sendHeartbeat(): void {
     const heartbeat = JSON.stringify({
@@ -183,26 +871,37 @@ export class WebSocketService {
     });
 
     this.clients.forEach((client) => {
+      if (this.unresponsive.has(client)) {
+        console.warn(`[WebSocket] Terminating unresponsive client ${this.socketIps.get(client)}`);
+        client.terminate();
+        this.removeClient(client);
+        return;
+      }
+
       if (client.readyState === WebSocket.OPEN) {
         try {
-          client.send(heartbeat);
+          this.unresponsive.add(client);
+          client.ping();
+          if (!this.isSlow(client)) {
+            client.send(heartbeat);
+          }
         } catch (error) {
           console.error('[WebSocket] Error sending heartbeat:', error);
-          this.clients.delete(client);
+          this.removeClient(client);
         }
       } else {
-        this.clients.delete(client);
+        this.removeClient(client);
       }
     });
   }
 
   /**
-   * Start periodic heartbeat (every 30 seconds)
+   * Start periodic heartbeat (every pingIntervalMs, 30 seconds by default)
    */
   startHeartbeat(): NodeJS.Timeout {
     return setInterval(() => {
       this.sendHeartbeat();
-    }, 30000);
+    }, this.limits.pingIntervalMs);
   }
 }
 
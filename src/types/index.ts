@@ -1,19 +1,410 @@
+/**
+ * Board used by the legacy /api/scores routes and by messages that predate
+ * named leaderboards
+ */
+export const DEFAULT_BOARD_ID = 'global';
+
+/**
+ * Time windows a submission is recorded in besides the all-time board
+ */
+export type TimeWindow = 'daily' | 'weekly' | 'monthly';
+
+export const TIME_WINDOWS: TimeWindow[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * A single period of a time window, e.g. weekly/2026-W42
+ */
+export interface WindowPeriod {
+  window: TimeWindow;
+  period: string;
+}
+
+/**
+ * Current period of a window together with the instant it closes
+ */
+export interface ActiveWindowPeriod extends WindowPeriod {
+  endsAt: number;
+}
+
+/**
+ * How a new submission combines with the score already stored for a player:
+ *   best       - keep the highest score
+ *   latest     - keep the most recent score
+ *   cumulative - add every submission to the stored score
+ *   minimum    - keep the lowest score
+ */
+export type AggregationPolicy = 'best' | 'latest' | 'cumulative' | 'minimum';
+
+export const AGGREGATION_POLICIES: AggregationPolicy[] = [
+  'best',
+  'latest',
+  'cumulative',
+  'minimum',
+];
+
+export const DEFAULT_AGGREGATION_POLICY: AggregationPolicy = 'best';
+
+export interface BoardConfig {
+  board_id: string;
+  aggregation: AggregationPolicy;
+  // Higher submissions are quarantined for review; null for no limit
+  max_score: number | null;
+}
+
+/**
+ * Outcome of applying a submission to a player's stored score
+ */
+export interface ScoreUpdateResult {
+  previousScore: number | null;
+  storedScore: number;
+  changed: boolean;
+  // All-time rank of the player once the submission was applied
+  rank: number;
+}
+
 export interface ScoreSubmission {
+  board_id: string;
   player_id: string;
   score: number;
+  // When the player reached the score, as sent by the client; ranks equal
+  // scores
   timestamp: string;
+  // Server time the score was accepted; absent on messages published before
+  // it was recorded
+  accepted_at?: string;
+  // Policy of the board when the score was accepted
+  aggregation: AggregationPolicy;
+  // All-time rank right after the score was accepted; absent on messages
+  // published before ranks were recorded
+  rank_at_submission?: number | null;
+  // Client-supplied id that makes retries of the same submission idempotent
+  submission_id?: string;
+  // Outbox stream entry the submission was relayed from
+  outbox_id?: string;
+}
+
+/**
+ * An accepted submission waiting in the outbox stream to be published
+ */
+export interface OutboxEntry {
+  id: string;
+  submission: ScoreSubmission;
+  // Set when the submission changed the player's stored score
+  change: LeaderboardChange | null;
+}
+
+/**
+ * A plausibility rule that a submission failed
+ */
+export interface RuleViolation {
+  rule: string;
+  reason: string;
+}
+
+export type QuarantineStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A submission held back from the live board until an admin reviews it
+ */
+export interface QuarantinedSubmission {
+  id: string;
+  status: QuarantineStatus;
+  submission: ScoreSubmission;
+  violations: RuleViolation[];
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+/**
+ * What is remembered about a submission id during the retention window.
+ * status and body stay null until the first request completes.
+ */
+export interface IdempotencyRecord {
+  fingerprint: string;
+  status: number | null;
+  body: Record<string, unknown> | null;
+}
+
+export type ModerationAction =
+  | 'remove_player'
+  | 'reset_score'
+  | 'override_score'
+  | 'ban_player'
+  | 'unban_player'
+  | 'wipe_board';
+
+export const MODERATION_ACTIONS: ModerationAction[] = [
+  'remove_player',
+  'reset_score',
+  'override_score',
+  'ban_player',
+  'unban_player',
+  'wipe_board',
+];
+
+/**
+ * A moderation action as recorded in the audit log. actor is the id of the
+ * admin's principal.
+ */
+export interface AuditEntry {
+  id: string;
+  action: ModerationAction;
+  actor: string;
+  board_id: string | null;
+  player_id: string | null;
+  reason: string | null;
+  details: Record<string, unknown>;
+  at: string;
+}
+
+export interface AuditQuery {
+  action?: ModerationAction;
+  actor?: string;
+  board_id?: string;
+  player_id?: string;
+  limit: number;
+  // Id of the last entry of the previous page; entries are newest first
+  before?: string;
+}
+
+/**
+ * A player barred from submitting to any board
+ */
+export interface PlayerBan {
+  player_id: string;
+  reason: string | null;
+  banned_by: string;
+  banned_at: string;
+}
+
+/**
+ * A moderation change to stored scores, persisted so that rebuilding Redis
+ * from the database applies it again
+ */
+export interface ScoreAdjustment {
+  action: 'remove' | 'override';
+  // null for every board
+  board_id: string | null;
+  // null for every player on the board
+  player_id: string | null;
+  // The stored score an override sets
+  score: number | null;
+  applied_at: string;
+}
+
+/**
+ * Permission of an API caller. admin includes the other two.
+ */
+export type Role = 'reader' | 'submitter' | 'admin';
+
+export const ROLES: Role[] = ['reader', 'submitter', 'admin'];
+
+/**
+ * The caller of a request: an API key, a JWT subject or, without
+ * credentials, anonymous
+ */
+export interface Principal {
+  id: string;
+  roles: Role[];
+  authenticated: boolean;
+}
+
+/**
+ * Routes that are rate limited separately, and the kinds of caller each
+ * limit applies to: the submitting player, an authenticated caller (API
+ * key or JWT subject), or the client IP of an anonymous caller
+ */
+export type RateLimitRoute = 'submit' | 'read' | 'admin';
+
+export type RateLimitCallerClass = 'player' | 'key' | 'ip';
+
+export const RATE_LIMIT_ROUTES: RateLimitRoute[] = ['submit', 'read', 'admin'];
+
+export const RATE_LIMIT_CALLER_CLASSES: RateLimitCallerClass[] = ['player', 'key', 'ip'];
+
+/**
+ * At most limit requests per window_seconds, refilled continuously
+ */
+export interface RateLimit {
+  limit: number;
+  window_seconds: number;
+}
+
+export type RateLimitConfig = Record<
+  RateLimitRoute,
+  Partial<Record<RateLimitCallerClass, RateLimit>>
+>;
+
+/**
+ * A token bucket to draw from, and its state after the request
+ */
+export interface RateLimitBucket {
+  key: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitBucketState {
+  remaining: number;
+  // Until a token is available, 0 when one is
+  retryAfterMs: number;
+  // Until the bucket is full again
+  resetMs: number;
+}
+
+/**
+ * Outcome of a rate limit check, reported from the most constrained bucket
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * A trusted submitter, such as a game server, and the secrets it may sign
+ * with. Several secrets are accepted at once so they can be rotated.
+ * boards is null when the client may submit to every board.
+ */
+export interface SigningClient {
+  secrets: string[];
+  boards: string[] | null;
+}
+
+/**
+ * The parts of a request covered by its HMAC signature
+ */
+export interface SignedRequest {
+  clientId: string | undefined;
+  timestamp: string | undefined;
+  nonce: string | undefined;
+  signature: string | undefined;
+  method: string;
+  path: string;
+  body: Buffer;
+}
+
+export type DeadLetterStatus = 'pending' | 'replayed' | 'discarded';
+
+export const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['pending', 'replayed', 'discarded'];
+
+/**
+ * A batch that could not be persisted, mirroring the dead_letter_queue table
+ */
+export interface DeadLetterEntry {
+  id: string;
+  status: DeadLetterStatus;
+  // Error of the original save, or of the last failed replay
+  error_message: string | null;
+  retry_count: number;
+  created_at: string;
+  updated_at: string;
+  count: number;
+  submissions: ScoreSubmission[];
+}
+
+export interface DeadLetterReplayResult {
+  id: string;
+  success: boolean;
+  error_message: string | null;
+}
+
+export type RebuildState = 'idle' | 'rebuilding' | 'completed' | 'failed';
+
+/**
+ * Progress of restoring Redis leaderboards from the database
+ */
+export interface RebuildStatus {
+  state: RebuildState;
+  started_at: string | null;
+  finished_at: string | null;
+  boards: string[];
+  // Submissions replayed so far
+  processed: number;
+  // Submissions that were not applied: out of range or by banned players
+  skipped: number;
+  error: string | null;
+}
+
+export interface ScoreHistoryQuery {
+  // Inclusive time range
+  from?: Date;
+  to?: Date;
+  limit: number;
+  cursor?: string;
+}
+
+export interface ScoreHistoryEntry {
+  score: number;
+  timestamp: string;
+  aggregation: AggregationPolicy;
+  rank_at_submission: number | null;
+  // Beat every earlier submission of the player on the board (lowest score
+  // on minimum boards, highest otherwise)
+  is_personal_best: boolean;
+}
+
+/**
+ * One page of a player's submissions, newest first
+ */
+export interface ScoreHistoryPage {
+  board_id: string;
+  player_id: string;
+  entries: ScoreHistoryEntry[];
+  next_cursor: string | null;
 }
 
 export interface LeaderboardEntry {
   player_id: string;
   rank: number;
   score: number;
+  // When the player first reached this score; breaks ties between equal
+  // scores. Null for scores stored before achievement times were recorded.
+  achieved_at: string | null;
+}
+
+/**
+ * One page of a board. Cursors are opaque and anchor on the first / last
+ * entry of the page, so pages stay consistent while scores change.
+ */
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  total: number;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+}
+
+export interface ScoreSummary {
+  total_players: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+}
+
+export interface HistogramBucket {
+  // Inclusive score bounds
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface PercentileThreshold {
+  percentile: number;
+  // Lowest score that reaches the percentile
+  score: number;
 }
 
 export interface LeaderboardUpdate {
+  board_id: string;
   top10: LeaderboardEntry[];
   timestamp: number;
   checksum: string;
+  // Version of the board it was published as; absent on caches written
+  // before leaderboards were versioned
+  version?: number;
 }
 
 export interface User {
@@ -26,9 +417,98 @@ export interface EnhancedLeaderboardEntry extends LeaderboardEntry {
   username: string;
 }
 
+/**
+ * A player whose position in a board's top 10 changed
+ */
+export interface RankingChange {
+  player_id: string;
+  oldRank: number | null;
+  newRank: number;
+}
+
+/**
+ * A board's top 10 as published on the leaderboard updates topic and
+ * pushed to WebSocket clients. Versions increase by one per publication of
+ * the board.
+ */
+export interface LeaderboardBroadcast {
+  board_id: string;
+  version: number;
+  leaderboard: EnhancedLeaderboardEntry[];
+  timestamp: number;
+  checksum: string;
+  changedRankings?: RankingChange[];
+}
+
+/**
+ * A board version's top N in full
+ */
+export interface LeaderboardSnapshot {
+  board_id: string;
+  version: number;
+  top: number;
+  timestamp: number;
+  leaderboard: EnhancedLeaderboardEntry[];
+}
+
+/**
+ * The patch turning base_version's top N into version's: the entries at
+ * ranks whose holder or score changed, and the new size. Ranks not listed
+ * keep the base version's entry.
+ */
+export interface LeaderboardDelta {
+  board_id: string;
+  version: number;
+  base_version: number;
+  top: number;
+  timestamp: number;
+  entries: EnhancedLeaderboardEntry[];
+  size: number;
+  changedRankings: RankingChange[];
+}
+
+/**
+ * Leaderboard updates as pushed to WebSocket and Server-Sent Events clients
+ */
+export type LeaderboardFeedMessage =
+  | { type: 'leaderboard_snapshot'; data: LeaderboardSnapshot }
+  | { type: 'leaderboard_delta'; data: LeaderboardDelta };
+
+export interface LeaderboardChange {
+  board_id: string;
+  player_id: string;
+  // Stored score after and before the submission
+  score: number;
+  previous_score: number | null;
+  // Sorted set scores (score plus tiebreak) after and before, which place
+  // the player among equal scores; absent on changes published before they
+  // were recorded
+  sort_score?: number;
+  previous_sort_score?: number | null;
+  timestamp: number;
+}
+
+/**
+ * Entry of a friends / group leaderboard: rank within the group plus the
+ * player's rank on the whole board
+ */
+export interface GroupLeaderboardEntry extends EnhancedLeaderboardEntry {
+  global_rank: number;
+}
+
 export interface KafkaMessage {
   type: 'SCORE_SUBMISSION' | 'LEADERBOARD_CHANGE';
   data: any;
   timestamp: number;
 }
 
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed body, kept for verifying submission signatures
+      rawBody?: Buffer;
+      // Set by the authentication middleware
+      principal?: Principal;
+    }
+  }
+}
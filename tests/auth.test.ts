@@ -0,0 +1,156 @@
+import { createHmac } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { createAuthenticate, requireRole } from '../src/middleware/auth';
+import { AuthService, parseApiKeys } from '../src/services/AuthService';
+import { Principal } from '../src/types';
+
+const READER_KEY = 'reader-key-0123456789abcdef0123456789';
+const JWT_SECRET = 'jwt-secret-0123456789abcdef0123456789';
+
+interface FakeResponse {
+  statusCode: number | null;
+  body: unknown;
+  status(code: number): FakeResponse;
+  json(body: unknown): FakeResponse;
+}
+
+function fakeRequest(
+  headers: Record<string, string> = {},
+  query: Record<string, string> = {}
+): Request {
+  const lower = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  return { get: (name: string) => lower[name.toLowerCase()], query } as unknown as Request;
+}
+
+function fakeResponse(): FakeResponse {
+  return {
+    statusCode: null,
+    body: null,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+function signToken(payload: Record<string, unknown>, alg: string = 'HS256'): string {
+  const encode = (part: unknown): string =>
+    Buffer.from(JSON.stringify(part)).toString('base64url');
+  const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(payload)}`;
+  const signature = createHmac('sha256', JWT_SECRET).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+describe('authentication middleware', () => {
+  const authService = new AuthService(
+    parseApiKeys(JSON.stringify({ dashboard: { key: READER_KEY, roles: ['reader'] } })),
+    { secret: JWT_SECRET }
+  );
+  const authenticate = createAuthenticate(authService);
+
+  // Run the middleware and report the principal it set, its response and
+  // whether it called next()
+  const run = (req: Request): { principal?: Principal; res: FakeResponse; next: boolean } => {
+    const res = fakeResponse();
+    let calledNext = false;
+    authenticate(req, res as unknown as Response, (() => {
+      calledNext = true;
+    }) as NextFunction);
+    return { principal: req.principal, res, next: calledNext };
+  };
+
+  it('resolves an API key to its principal', () => {
+    const { principal, next } = run(fakeRequest({ 'X-API-Key': READER_KEY }));
+
+    expect(next).toBe(true);
+    expect(principal).toEqual({ id: 'key:dashboard', roles: ['reader'], authenticated: true });
+  });
+
+  it('rejects an unknown API key with 401', () => {
+    const { res, next } = run(fakeRequest({ 'X-API-Key': 'x'.repeat(40) }));
+
+    expect(next).toBe(false);
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('rejects an Authorization header that is not a bearer token', () => {
+    const { res } = run(fakeRequest({ Authorization: 'Basic abc' }));
+
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('maps a valid JWT to its subject and known roles', () => {
+    const token = signToken({ sub: 'alice', roles: ['submitter', 'superuser'] });
+    const { principal } = run(fakeRequest({ Authorization: `Bearer ${token}` }));
+
+    expect(principal).toEqual({ id: 'jwt:alice', roles: ['submitter'], authenticated: true });
+  });
+
+  it.each([
+    ['another algorithm', signToken({ sub: 'alice' }, 'none')],
+    ['an expired token', signToken({ sub: 'alice', exp: Math.floor(Date.now() / 1000) - 3600 })],
+    ['a token without subject', signToken({ roles: ['admin'] })],
+    ['a tampered token', `${signToken({ sub: 'alice' }).slice(0, -4)}AAAA`],
+  ])('rejects %s with 401', (_, token) => {
+    const { res, next } = run(fakeRequest({ Authorization: `Bearer ${token}` }));
+
+    expect(next).toBe(false);
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('takes the token from access_token only on event stream requests', () => {
+    const token = signToken({ sub: 'alice', roles: ['reader'] });
+
+    const stream = run(fakeRequest({ Accept: 'text/event-stream' }, { access_token: token }));
+    const plain = run(fakeRequest({}, { access_token: token }));
+
+    expect(stream.principal?.id).toBe('jwt:alice');
+    expect(plain.principal).toMatchObject({ id: 'anonymous', authenticated: false });
+  });
+
+  it('treats every caller as an admin until credentials are configured', () => {
+    const open = new AuthService(new Map(), null);
+
+    expect(open.authenticate({})).toEqual({
+      id: 'anonymous',
+      roles: ['admin'],
+      authenticated: false,
+    });
+  });
+});
+
+describe('role checks', () => {
+  const check = (principal: Principal | undefined): FakeResponse & { next: boolean } => {
+    const req = { principal } as Request;
+    const res = Object.assign(fakeResponse(), { next: false });
+    requireRole('submitter')(req, res as unknown as Response, (() => {
+      res.next = true;
+    }) as NextFunction);
+    return res;
+  };
+
+  it('lets callers with the role or admin through', () => {
+    expect(check({ id: 'key:game', roles: ['submitter'], authenticated: true }).next).toBe(true);
+    expect(check({ id: 'key:ops', roles: ['admin'], authenticated: true }).next).toBe(true);
+  });
+
+  it('asks anonymous callers to authenticate', () => {
+    const res = check({ id: 'anonymous', roles: [], authenticated: false });
+
+    expect(res.next).toBe(false);
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('forbids authenticated callers without the role', () => {
+    const res = check({ id: 'key:dashboard', roles: ['reader'], authenticated: true });
+
+    expect(res.next).toBe(false);
+    expect(res.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,137 @@
+import { LeaderboardFeedService } from '../src/services/LeaderboardFeedService';
+import { LeaderboardProcessingService } from '../src/services/LeaderboardProcessingService';
+import { EnhancedLeaderboardEntry, LeaderboardBroadcast, LeaderboardEntry } from '../src/types';
+import { FakeRedisClient, createRedisService } from './support/fakeRedisClient';
+
+// Board versions are built from scores listed best first
+const entries = (scores: Array<[string, number]>): EnhancedLeaderboardEntry[] =>
+  scores.map(([playerId, score], index) => ({
+    player_id: playerId,
+    rank: index + 1,
+    score,
+    achieved_at: null,
+    username: playerId.toUpperCase(),
+  }));
+
+const version = (n: number, scores: Array<[string, number]>): LeaderboardBroadcast => ({
+  board_id: 'ranked',
+  version: n,
+  leaderboard: entries(scores),
+  timestamp: 1000 + n,
+  checksum: `checksum-${n}`,
+});
+
+const V1 = version(1, [['a', 50], ['b', 40], ['c', 30], ['d', 20], ['e', 10]]);
+// Rank 5 changed: only top-5 subscribers hear about it
+const V2 = version(2, [['a', 50], ['b', 40], ['c', 30], ['d', 20], ['f', 15]]);
+// Ranks 2 and 3 swapped
+const V3 = version(3, [['a', 50], ['c', 45], ['b', 40], ['d', 20], ['f', 15]]);
+
+describe('leaderboard feed', () => {
+  let client: FakeRedisClient;
+  let feed: LeaderboardFeedService;
+
+  beforeEach(() => {
+    client = new FakeRedisClient();
+    const processing = {
+      enhanceLeaderboardWithUserDetails: async (top: LeaderboardEntry[]) =>
+        top.map((entry) => ({ ...entry, username: entry.player_id.toUpperCase() })),
+    } as unknown as LeaderboardProcessingService;
+    feed = new LeaderboardFeedService(createRedisService(client), processing);
+  });
+
+  it('sends a snapshot for the first version it sees', () => {
+    const message = feed.messageFor(feed.track(V1)!, 3);
+
+    expect(message).toEqual({
+      type: 'leaderboard_snapshot',
+      data: {
+        board_id: 'ranked',
+        version: 1,
+        top: 3,
+        timestamp: 1001,
+        leaderboard: V1.leaderboard.slice(0, 3),
+      },
+    });
+  });
+
+  it('skips subscribers whose top N did not change', () => {
+    feed.track(V1);
+    const tracked = feed.track(V2)!;
+
+    expect(feed.messageFor(tracked, 3)).toBeNull();
+    expect(feed.messageFor(tracked, 5)).toMatchObject({
+      type: 'leaderboard_delta',
+      data: { version: 2, base_version: 1, entries: [V2.leaderboard[4]], size: 5 },
+    });
+  });
+
+  it('bases each delta on the version at which its top N last changed', () => {
+    feed.track(V1);
+    feed.track(V2);
+    const tracked = feed.track(V3)!;
+
+    // Top 3 last changed at version 1, top 5 at version 2
+    const top3 = feed.messageFor(tracked, 3);
+    const top5 = feed.messageFor(tracked, 5);
+
+    expect(top3).toMatchObject({ type: 'leaderboard_delta', data: { base_version: 1 } });
+    expect(top5).toMatchObject({ type: 'leaderboard_delta', data: { base_version: 2 } });
+    expect(top3?.type === 'leaderboard_delta' && top3.data.changedRankings).toEqual([
+      { player_id: 'c', oldRank: 3, newRank: 2 },
+      { player_id: 'b', oldRank: 2, newRank: 3 },
+    ]);
+  });
+
+  it('ignores versions older than the latest one', () => {
+    feed.track(V2);
+
+    expect(feed.track(V1)).toBeNull();
+    expect(feed.track(V2)).not.toBeNull();
+    expect(feed.latest('ranked')?.version).toBe(2);
+  });
+
+  it('replays from a version in the history as one delta to the latest', async () => {
+    for (const broadcast of [V1, V2, V3]) {
+      await client.lPush('leaderboard:history:ranked', JSON.stringify(broadcast));
+    }
+
+    const message = await feed.replay('ranked', 1, 5);
+
+    expect(message).toMatchObject({
+      type: 'leaderboard_delta',
+      data: {
+        version: 3,
+        base_version: 1,
+        entries: [V3.leaderboard[1], V3.leaderboard[2], V3.leaderboard[4]],
+      },
+    });
+  });
+
+  it('replays from a version no longer in the history as a snapshot', async () => {
+    await client.lPush('leaderboard:history:ranked', JSON.stringify(V3));
+    await client.set(
+      'leaderboard:cache:ranked',
+      JSON.stringify({
+        board_id: 'ranked',
+        top10: V3.leaderboard.map(({ username, ...entry }) => entry),
+        timestamp: V3.timestamp,
+        checksum: V3.checksum,
+        version: 3,
+      })
+    );
+
+    const message = await feed.replay('ranked', 1, 2);
+
+    expect(message).toEqual({
+      type: 'leaderboard_snapshot',
+      data: {
+        board_id: 'ranked',
+        version: 3,
+        top: 2,
+        timestamp: V3.timestamp,
+        leaderboard: V3.leaderboard.slice(0, 2),
+      },
+    });
+  });
+});
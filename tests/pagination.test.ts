@@ -0,0 +1,84 @@
+import { InvalidCursorError, RedisService } from '../src/services/RedisService';
+import { LeaderboardEntry } from '../src/types';
+import { FakeRedisClient, createRedisService } from './support/fakeRedisClient';
+
+const KEY = 'ranked:leaderboard';
+
+describe('cursor pagination', () => {
+  let client: FakeRedisClient;
+  let service: RedisService;
+
+  const ids = (entries: LeaderboardEntry[]): string[] => entries.map((entry) => entry.player_id);
+
+  beforeEach(async () => {
+    client = new FakeRedisClient();
+    service = createRedisService(client);
+
+    // Board order: a(90), then the tie group at 50 by member descending
+    // (p5..p1), then z(10)
+    await client.zAdd(KEY, [
+      { value: 'a', score: 90 },
+      ...[1, 2, 3, 4, 5].map((n) => ({ value: `p${n}`, score: 50 })),
+      { value: 'z', score: 10 },
+    ]);
+  });
+
+  it('walks the board forwards with consistent ranks', async () => {
+    const first = await service.getPage('ranked', 3);
+    expect(ids(first.entries)).toEqual(['a', 'p5', 'p4']);
+    expect(first.entries.map((entry) => entry.rank)).toEqual([1, 2, 3]);
+    expect(first.total).toBe(7);
+    expect(first.prev_cursor).toBeNull();
+
+    const second = await service.getPage('ranked', 3, first.next_cursor!);
+    expect(ids(second.entries)).toEqual(['p3', 'p2', 'p1']);
+    expect(second.entries.map((entry) => entry.rank)).toEqual([4, 5, 6]);
+
+    const third = await service.getPage('ranked', 3, second.next_cursor!);
+    expect(ids(third.entries)).toEqual(['z']);
+    expect(third.next_cursor).toBeNull();
+  });
+
+  it('walks back to the previous page', async () => {
+    const first = await service.getPage('ranked', 3);
+    const second = await service.getPage('ranked', 3, first.next_cursor!);
+
+    const back = await service.getPage('ranked', 3, second.prev_cursor!);
+    expect(ids(back.entries)).toEqual(['a', 'p5', 'p4']);
+    expect(back.prev_cursor).toBeNull();
+  });
+
+  it('clips a previous page at the top of the board', async () => {
+    const first = await service.getPage('ranked', 2);
+    const second = await service.getPage('ranked', 2, first.next_cursor!);
+    expect(ids(second.entries)).toEqual(['p4', 'p3']);
+
+    const back = await service.getPage('ranked', 3, second.prev_cursor!);
+    expect(ids(back.entries)).toEqual(['a', 'p5']);
+  });
+
+  it('does not shift when players above the anchor move', async () => {
+    const first = await service.getPage('ranked', 3);
+
+    // A new leader pushes everyone down one place
+    await client.zAdd(KEY, { value: 'new', score: 99 });
+    const second = await service.getPage('ranked', 3, first.next_cursor!);
+
+    expect(ids(second.entries)).toEqual(['p3', 'p2', 'p1']);
+    expect(second.entries.map((entry) => entry.rank)).toEqual([5, 6, 7]);
+  });
+
+  it('continues after an anchor that left the board', async () => {
+    const first = await service.getPage('ranked', 3);
+    await client.zRem(KEY, 'p4');
+
+    const second = await service.getPage('ranked', 3, first.next_cursor!);
+    expect(ids(second.entries)).toEqual(['p3', 'p2', 'p1']);
+  });
+
+  it('rejects malformed cursors', async () => {
+    await expect(service.getPage('ranked', 3, 'not-a-cursor')).rejects.toBeInstanceOf(
+      InvalidCursorError
+    );
+  });
+});
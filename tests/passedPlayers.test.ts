@@ -0,0 +1,79 @@
+import { RedisService } from '../src/services/RedisService';
+import { LeaderboardChange } from '../src/types';
+import { FakeRedisClient, createRedisService } from './support/fakeRedisClient';
+
+const KEY = 'ranked:leaderboard';
+
+describe('players passed by a score change', () => {
+  let client: FakeRedisClient;
+  let service: RedisService;
+
+  const change = (overrides: Partial<LeaderboardChange>): LeaderboardChange => ({
+    board_id: 'ranked',
+    player_id: 'mover',
+    score: 100,
+    previous_score: 90,
+    sort_score: 100.25,
+    previous_sort_score: 90.5,
+    timestamp: 0,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    client = new FakeRedisClient();
+    service = createRedisService(client);
+
+    await client.zAdd(KEY, [
+      // Tied at the new score but reached it first: not passed
+      { value: 'first-at-100', score: 100.75 },
+      { value: 'mover', score: 100.25 },
+      // Tied at the new score, reached it later: passed
+      { value: 'later-at-100', score: 100.125 },
+      { value: 'at-95', score: 95.5 },
+      // Tied at the old score but was ahead of the mover: passed
+      { value: 'ahead-at-90', score: 90.75 },
+      // Tied at the old score and already behind the mover: not passed
+      { value: 'behind-at-90', score: 90.25 },
+      { value: 'at-80', score: 80.5 },
+    ]);
+  });
+
+  it('counts only players strictly between the old and new position', async () => {
+    const improved = change({});
+
+    expect(await service.countPassedPlayers(improved)).toBe(3);
+    expect((await service.getPassedPlayers(improved)).sort()).toEqual([
+      'ahead-at-90',
+      'at-95',
+      'later-at-100',
+    ]);
+  });
+
+  it('reports the passed players among the given ones, best first', async () => {
+    const entries = await service.getPassedEntries(change({}), [
+      'behind-at-90',
+      'ahead-at-90',
+      'first-at-100',
+      'at-95',
+      'mover',
+    ]);
+
+    expect(entries.map((entry) => [entry.player_id, entry.rank])).toEqual([
+      ['at-95', 4],
+      ['ahead-at-90', 5],
+    ]);
+  });
+
+  it('counts the players a lowered score fell behind', async () => {
+    // The mover dropped from 100.875 to its current 100.25
+    const lowered = change({ score: 100, previous_score: 100, previous_sort_score: 100.875 });
+
+    expect(await service.getPassedPlayers(lowered)).toEqual(['first-at-100']);
+  });
+
+  it('counts everyone below a new entry as passed', async () => {
+    const entered = change({ previous_score: null, previous_sort_score: null });
+
+    expect(await service.countPassedPlayers(entered)).toBe(5);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  InvalidSignatureError,
+  SignatureRejectedError,
+  SignatureService,
+  computeSignature,
+  parseSigningClients,
+} from '../src/services/SignatureService';
+import { SignedRequest } from '../src/types';
+import { FakeRedisClient, createRedisService } from './support/fakeRedisClient';
+
+const CURRENT_SECRET = 'current-secret-0123456789abcdef012345';
+const OLD_SECRET = 'old-secret-0123456789abcdef0123456789';
+
+describe('signed submissions', () => {
+  let service: SignatureService;
+
+  // A score submission to ranked-eu signed with the secret
+  const signed = (
+    secret: string,
+    overrides: Partial<SignedRequest> = {}
+  ): SignedRequest => {
+    const request = {
+      clientId: 'game-eu',
+      timestamp: Math.floor(Date.now() / 1000).toString(),
+      nonce: `nonce-${Math.random().toString(36).slice(2)}-0000000000`,
+      method: 'POST',
+      path: '/api/boards/ranked-eu/scores',
+      body: Buffer.from('{"player_id":"alice","score":100}'),
+      ...overrides,
+    };
+    return { ...request, signature: computeSignature(secret, request), ...overrides };
+  };
+
+  beforeEach(() => {
+    service = new SignatureService(
+      createRedisService(new FakeRedisClient()),
+      parseSigningClients(
+        JSON.stringify({
+          'game-eu': { secrets: [CURRENT_SECRET, OLD_SECRET], boards: ['ranked-eu'] },
+        })
+      )
+    );
+  });
+
+  it('accepts a request signed with any current secret', async () => {
+    await expect(service.verify(signed(CURRENT_SECRET), 'ranked-eu')).resolves.toBe('game-eu');
+    await expect(service.verify(signed(OLD_SECRET), 'ranked-eu')).resolves.toBe('game-eu');
+  });
+
+  it('rejects a wrong secret or an altered body', async () => {
+    const wrong = signed('wrong-secret-0123456789abcdef01234567');
+    const altered = { ...signed(CURRENT_SECRET), body: Buffer.from('{"score":999999}') };
+
+    await expect(service.verify(wrong, 'ranked-eu')).rejects.toBeInstanceOf(InvalidSignatureError);
+    await expect(service.verify(altered, 'ranked-eu')).rejects.toBeInstanceOf(
+      InvalidSignatureError
+    );
+  });
+
+  it('rejects timestamps outside the allowed window', async () => {
+    const stale = signed(CURRENT_SECRET, {
+      timestamp: (Math.floor(Date.now() / 1000) - 301).toString(),
+    });
+
+    await expect(service.verify(stale, 'ranked-eu')).rejects.toBeInstanceOf(InvalidSignatureError);
+  });
+
+  it('rejects missing headers and unknown clients', async () => {
+    const unsigned = { ...signed(CURRENT_SECRET), signature: undefined };
+    const unknown = signed(CURRENT_SECRET, { clientId: 'game-us' });
+
+    await expect(service.verify(unsigned, 'ranked-eu')).rejects.toBeInstanceOf(
+      InvalidSignatureError
+    );
+    await expect(service.verify(unknown, 'ranked-eu')).rejects.toBeInstanceOf(
+      InvalidSignatureError
+    );
+  });
+
+  it('refuses a replayed nonce', async () => {
+    const request = signed(CURRENT_SECRET);
+
+    await service.verify(request, 'ranked-eu');
+    await expect(service.verify(request, 'ranked-eu')).rejects.toBeInstanceOf(
+      SignatureRejectedError
+    );
+  });
+
+  it('refuses boards the client may not submit to', async () => {
+    await expect(service.verify(signed(CURRENT_SECRET), 'ranked-us')).rejects.toBeInstanceOf(
+      SignatureRejectedError
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { RedisService } from '../../src/services/RedisService';
+
+interface Member {
+  value: string;
+  score: number;
+}
+
+/**
+ * In-memory stand-in for the node-redis commands the tests exercise:
+ * sorted sets, plain strings and lists. Sorted sets order members like
+ * Redis: by score, then by member bytes.
+ */
+export class FakeRedisClient {
+  private sortedSets: Map<string, Map<string, number>> = new Map();
+  private strings: Map<string, string> = new Map();
+  private lists: Map<string, string[]> = new Map();
+
+  on(): this {
+    return this;
+  }
+
+  async zAdd(key: string, members: Member | Member[]): Promise<number> {
+    const set = this.sortedSets.get(key) ?? new Map<string, number>();
+    this.sortedSets.set(key, set);
+
+    let added = 0;
+    for (const { value, score } of Array.isArray(members) ? members : [members]) {
+      added += set.has(value) ? 0 : 1;
+      set.set(value, score);
+    }
+    return added;
+  }
+
+  async zRem(key: string, member: string): Promise<number> {
+    return this.sortedSets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.sortedSets.get(key)?.size ?? 0;
+  }
+
+  async zScore(key: string, member: string): Promise<number | null> {
+    return this.sortedSets.get(key)?.get(member) ?? null;
+  }
+
+  async zmScore(key: string, members: string[]): Promise<Array<number | null>> {
+    return members.map((member) => this.sortedSets.get(key)?.get(member) ?? null);
+  }
+
+  async zRevRank(key: string, member: string): Promise<number | null> {
+    const index = this.sorted(key, true).findIndex((entry) => entry.value === member);
+    return index >= 0 ? index : null;
+  }
+
+  async zCount(key: string, min: number | string, max: number | string): Promise<number> {
+    return this.inRange(key, min, max).length;
+  }
+
+  async zRangeByScore(key: string, min: number | string, max: number | string): Promise<string[]> {
+    return this.inRange(key, min, max).map((entry) => entry.value);
+  }
+
+  async zRangeWithScores(
+    key: string,
+    start: number,
+    stop: number,
+    options?: { REV?: boolean }
+  ): Promise<Member[]> {
+    return this.sorted(key, options?.REV ?? false).slice(start, stop + 1);
+  }
+
+  async zRange(
+    key: string,
+    start: number,
+    stop: number,
+    options?: { REV?: boolean }
+  ): Promise<string[]> {
+    return (await this.zRangeWithScores(key, start, stop, options)).map((entry) => entry.value);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string, options?: { NX?: boolean }): Promise<string | null> {
+    if (options?.NX && this.strings.has(key)) {
+      return null;
+    }
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async lPush(key: string, value: string): Promise<number> {
+    const list = this.lists.get(key) ?? [];
+    list.unshift(value);
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    const list = this.lists.get(key) ?? [];
+    return list.slice(start, stop < 0 ? list.length + stop + 1 : stop + 1);
+  }
+
+  private sorted(key: string, rev: boolean): Member[] {
+    const members = Array.from(this.sortedSets.get(key) ?? [], ([value, score]) => ({
+      value,
+      score,
+    })).sort(
+      (a, b) => a.score - b.score || Buffer.compare(Buffer.from(a.value), Buffer.from(b.value))
+    );
+    return rev ? members.reverse() : members;
+  }
+
+  private inRange(key: string, min: number | string, max: number | string): Member[] {
+    const lower = this.parseBound(min);
+    const upper = this.parseBound(max);
+    return this.sorted(key, false).filter(
+      ({ score }) =>
+        (lower.exclusive ? score > lower.value : score >= lower.value) &&
+        (upper.exclusive ? score < upper.value : score <= upper.value)
+    );
+  }
+
+  private parseBound(bound: number | string): { value: number; exclusive: boolean } {
+    if (typeof bound === 'number') {
+      return { value: bound, exclusive: false };
+    }
+    if (bound === '-inf' || bound === '+inf' || bound === 'inf') {
+      return { value: bound === '-inf' ? -Infinity : Infinity, exclusive: false };
+    }
+    const exclusive = bound.startsWith('(');
+    return { value: parseFloat(exclusive ? bound.slice(1) : bound), exclusive };
+  }
+}
+
+/**
+ * A RedisService talking to a fake client instead of a Redis server
+ */
+export function createRedisService(client: FakeRedisClient): RedisService {
+  const service = new RedisService('localhost', 6379);
+  Object.assign(service, { client });
+  return service;
+}
@@ -0,0 +1,73 @@
+import { RedisService } from '../src/services/RedisService';
+import { FakeRedisClient, createRedisService } from './support/fakeRedisClient';
+
+const KEY = 'ranked:leaderboard';
+const TIE_RANGE = 2 ** 30;
+
+describe('tie-breaking by achievement time', () => {
+  let client: FakeRedisClient;
+  let service: RedisService;
+
+  // Sorted set score of a stored score reached at the given time
+  const encode = (score: number, achievedAt: string): number =>
+    score + service['tiebreak'](Date.parse(achievedAt)) / TIE_RANGE;
+
+  beforeEach(() => {
+    client = new FakeRedisClient();
+    service = createRedisService(client);
+  });
+
+  it('ranks equal scores by who reached them first', async () => {
+    await client.zAdd(KEY, [
+      { value: 'late', score: encode(100, '2025-03-01T12:00:05.000Z') },
+      { value: 'early', score: encode(100, '2025-03-01T12:00:00.000Z') },
+      { value: 'top', score: encode(101, '2025-03-02T00:00:00.000Z') },
+    ]);
+
+    const entries = await service.getTopPlayers('ranked');
+
+    expect(entries).toEqual([
+      { player_id: 'top', rank: 1, score: 101, achieved_at: '2025-03-02T00:00:00.000Z' },
+      { player_id: 'early', rank: 2, score: 100, achieved_at: '2025-03-01T12:00:00.000Z' },
+      { player_id: 'late', rank: 3, score: 100, achieved_at: '2025-03-01T12:00:05.000Z' },
+    ]);
+  });
+
+  it('keeps the same order for per-player ranks and lookups', async () => {
+    await client.zAdd(KEY, [
+      { value: 'b', score: encode(50, '2025-01-01T00:00:10.000Z') },
+      { value: 'a', score: encode(50, '2025-01-01T00:00:20.000Z') },
+    ]);
+
+    expect(await service.getPlayerRank('ranked', 'b')).toBe(1);
+    expect(await service.getPlayerRank('ranked', 'a')).toBe(2);
+    expect(await service.getPlayerScore('ranked', 'a')).toBe(50);
+
+    const entries = await service.getEntriesForPlayers('ranked', ['a', 'b']);
+    expect(entries.map((entry) => [entry.player_id, entry.rank])).toEqual([
+      ['b', 1],
+      ['a', 2],
+    ]);
+  });
+
+  it('ranks scores stored without an achievement time after equal timed ones', async () => {
+    await client.zAdd(KEY, [
+      { value: 'legacy', score: 100 },
+      { value: 'timed', score: encode(100, '2025-01-01T00:00:00.000Z') },
+    ]);
+
+    const entries = await service.getTopPlayers('ranked');
+
+    expect(entries.map((entry) => entry.player_id)).toEqual(['timed', 'legacy']);
+    expect(entries[1]).toMatchObject({ score: 100, achieved_at: null });
+  });
+
+  it('never lets the fraction reach the next score', () => {
+    const latest = service['tiebreak'](Date.parse('2099-01-01T00:00:00.000Z'));
+    const earliest = service['tiebreak'](Date.parse('2000-01-01T00:00:00.000Z'));
+
+    expect(latest).toBeGreaterThan(0);
+    expect(earliest).toBeLessThan(TIE_RANGE);
+    expect(Math.floor(7 + earliest / TIE_RANGE)).toBe(7);
+  });
+});